@@ -0,0 +1,186 @@
+import type { QueryClient } from '@tanstack/react-query'
+import { act, fireEvent, render, screen, within } from '@testing-library/react'
+import { Suspense } from 'react'
+import { useScreenQueries } from '~/hooks/useScreenQueries'
+import { ScreenQueryProvider } from '~/providers/ScreenQueryProvider'
+import {
+  createQueryClient,
+  createQueryClientWrapper,
+  delay,
+  suppressConsoleError,
+} from '~/test-utils/screen-query'
+import { ScreenQueryDevtools } from './ScreenQueryDevtools'
+
+describe('ScreenQueryDevtools', () => {
+  let queryClient: QueryClient
+  let fetchedKeys: string[]
+
+  /**
+   * Section rendering the data of one query
+   */
+  const Section = ({ name, ms = 10 }: { name: string; ms?: number }) => {
+    const [data] = useScreenQueries([
+      {
+        queryKey: [name],
+        staleTime: Infinity,
+        queryFn: async () => {
+          fetchedKeys.push(name)
+          await delay(ms)
+          return `${name} data`
+        },
+      },
+    ])
+    return <p>{data}</p>
+  }
+
+  /**
+   * Section whose query never settles
+   */
+  const PendingSection = () => {
+    useScreenQueries(
+      [{ queryKey: ['pending'], queryFn: () => new Promise<string>(() => {}) }],
+      { label: 'PendingSection' },
+    )
+    return null
+  }
+
+  /**
+   * Render a screen with a nested modal provider, next to the devtools
+   */
+  const renderScreen = (modal: React.ReactNode = <Section name="posts" />) =>
+    render(
+      <>
+        <ScreenQueryProvider name="screen">
+          <Suspense fallback={<p>loading user</p>}>
+            <Section name="user" />
+          </Suspense>
+          <ScreenQueryProvider name="modal">
+            <Suspense fallback={<p>loading modal</p>}>{modal}</Suspense>
+          </ScreenQueryProvider>
+        </ScreenQueryProvider>
+        <ScreenQueryDevtools pollInterval={10} />
+      </>,
+      { wrapper: createQueryClientWrapper(queryClient) },
+    )
+
+  /**
+   * Get the row of a query in the devtools
+   */
+  const getRow = (keyString: string) => {
+    const row = screen.getByText(keyString).closest('tr')
+    if (!row) {
+      throw new Error(`No row for ${keyString}`)
+    }
+    return within(row)
+  }
+
+  beforeEach(() => {
+    // Suppress console.error including React 18 Suspense warnings
+    suppressConsoleError()
+    queryClient = createQueryClient()
+    queryClient.setDefaultOptions({ queries: { retry: false } })
+    fetchedKeys = []
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    queryClient.clear()
+  })
+
+  describe('when providers are mounted', () => {
+    it('should list the registered queries of each provider', async () => {
+      // Given/When: A loaded screen with a nested modal
+      renderScreen()
+      await screen.findByText('posts data')
+      await act(() => delay(20))
+
+      // Then: Both providers are listed with their queries
+      expect(screen.getByRole('heading', { name: 'screen' })).toBeDefined()
+      expect(screen.getByRole('heading', { name: 'modal' })).toBeDefined()
+      const user = getRow('["user"]')
+      expect(user.getByText('default')).toBeDefined()
+      expect(user.getByText('1')).toBeDefined()
+      expect(user.getByText('success')).toBeDefined()
+      expect(user.getByText('idle')).toBeDefined()
+      expect(getRow('["posts"]').getByText('success')).toBeDefined()
+    })
+
+    it('should list the query sets consumers are suspended on', async () => {
+      // Given/When: A modal whose query is still loading
+      renderScreen(<PendingSection />)
+      await screen.findByText('user data')
+      await act(() => delay(20))
+
+      // Then: The query set of the suspended consumer is listed
+      expect(
+        screen.getByText(
+          'default: ["pending"] suspended by PendingSection, waiting for ["pending"]',
+        ),
+      ).toBeDefined()
+      expect(getRow('["pending"]').getByText('fetching')).toBeDefined()
+    })
+
+    it('should refetch a query from its row', async () => {
+      // Given: A loaded screen
+      renderScreen()
+      await screen.findByText('posts data')
+      await act(() => delay(20))
+      fetchedKeys = []
+
+      // When: Press the refetch button of the user
+      fireEvent.click(getRow('["user"]').getByText('Refetch'))
+      await act(() => delay(30))
+
+      // Then: Only the user is refetched
+      expect(fetchedKeys).toEqual(['user'])
+    })
+
+    it('should clear a query from its row', async () => {
+      // Given: A loaded screen
+      renderScreen()
+      await screen.findByText('posts data')
+      await act(() => delay(20))
+      const reset = vi.spyOn(queryClient, 'resetQueries')
+
+      // When: Press the clear button of the posts
+      fireEvent.click(getRow('["posts"]').getByText('Clear'))
+      await act(() => delay(30))
+
+      // Then: Only the posts are reset
+      expect(reset).toHaveBeenCalledTimes(1)
+      expect(reset).toHaveBeenCalledWith({ queryKey: ['posts'], exact: true })
+    })
+  })
+
+  describe('when a provider has no name', () => {
+    it('should list it as ScreenQueryProvider', async () => {
+      // Given/When: An unnamed provider without queries
+      render(
+        <>
+          <ScreenQueryProvider>{null}</ScreenQueryProvider>
+          <ScreenQueryDevtools pollInterval={10} />
+        </>,
+        { wrapper: createQueryClientWrapper(queryClient) },
+      )
+      await act(() => delay(20))
+
+      // Then: The provider is listed without queries
+      expect(
+        screen.getByRole('heading', { name: 'ScreenQueryProvider' }),
+      ).toBeDefined()
+      expect(screen.getByText('No registered queries')).toBeDefined()
+    })
+  })
+
+  describe('when no provider is mounted', () => {
+    it('should say so', async () => {
+      // Given/When: Devtools without providers
+      render(<ScreenQueryDevtools />, {
+        wrapper: createQueryClientWrapper(queryClient),
+      })
+
+      // Then: No provider is listed
+      expect(screen.getByText('No mounted ScreenQueryProvider')).toBeDefined()
+    })
+  })
+})
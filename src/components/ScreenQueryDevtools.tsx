@@ -0,0 +1,162 @@
+import type React from 'react'
+import { useScreenQueryDevtools } from '~/hooks/useScreenQueryDevtools'
+import type {
+  ScreenQueryPendingSnapshot,
+  ScreenQueryProviderSnapshot,
+} from '~/providers/ScreenQueryProvider'
+
+/**
+ * Props of ScreenQueryDevtools.
+ */
+export type ScreenQueryDevtoolsProps = {
+  /**
+   * Milliseconds between reads of the provider state (default: 500)
+   */
+  pollInterval?: number
+  /**
+   * Style of the panel, e.g. to position it
+   */
+  style?: React.CSSProperties
+}
+
+const cellStyle: React.CSSProperties = {
+  padding: '2px 8px',
+  textAlign: 'left',
+  verticalAlign: 'top',
+}
+
+/**
+ * Describe a query set consumers are suspended on
+ * @param pending - Snapshot of the query set
+ * @returns Group and queries of the set, its labelled consumers and the queries it waits for
+ */
+function describePending(pending: ScreenQueryPendingSnapshot) {
+  const consumers =
+    pending.consumers.length > 0 ? ` by ${pending.consumers.join(', ')}` : ''
+  return `${pending.group}: ${pending.keyStrings.join(', ')} suspended${consumers}, waiting for ${pending.waitingFor.join(', ')}`
+}
+
+/**
+ * State of one provider and, nested below it, of its descendants
+ * @param props - Component props
+ * @param props.snapshot - Snapshot of the provider
+ */
+function ProviderPanel({
+  snapshot,
+}: {
+  snapshot: ScreenQueryProviderSnapshot
+}) {
+  return (
+    <section style={{ marginBottom: 8 }}>
+      <h2 style={{ fontSize: 'inherit', margin: '4px 0' }}>
+        {snapshot.name ?? 'ScreenQueryProvider'}
+      </h2>
+      {snapshot.queries.length === 0 ? (
+        <p style={{ margin: 0 }}>No registered queries</p>
+      ) : (
+        <table style={{ borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              {[
+                'Query key',
+                'Groups',
+                'Owners',
+                'Status',
+                'Fetch status',
+                '',
+              ].map((heading) => (
+                <th key={heading} style={cellStyle}>
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {snapshot.queries.map((query) => (
+              <tr key={query.keyString}>
+                <td style={cellStyle}>{query.keyString}</td>
+                <td style={cellStyle}>{query.groups.join(', ')}</td>
+                <td style={cellStyle}>{query.owners}</td>
+                <td style={cellStyle}>
+                  {query.held ? `${query.status} (held)` : query.status}
+                </td>
+                <td style={cellStyle}>{query.fetchStatus}</td>
+                <td style={cellStyle}>
+                  <button type="button" onClick={() => void query.refetch()}>
+                    Refetch
+                  </button>{' '}
+                  <button type="button" onClick={() => void query.clear()}>
+                    Clear
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {snapshot.pending.length > 0 && (
+        <ul style={{ margin: '4px 0' }}>
+          {snapshot.pending.map((pending) => (
+            <li key={pending.querySetKey}>{describePending(pending)}</li>
+          ))}
+        </ul>
+      )}
+      {snapshot.children.length > 0 && (
+        <div style={{ paddingLeft: 16 }}>
+          {snapshot.children.map((child) => (
+            <ProviderPanel key={child.id} snapshot={child} />
+          ))}
+        </div>
+      )}
+    </section>
+  )
+}
+
+/**
+ * In-app panel showing the state of the mounted ScreenQueryProviders.
+ *
+ * @description
+ * Lists the providers mounted with the QueryClient, each with its registered
+ * queries (groups, number of consumers retaining them, status and fetchStatus),
+ * the query sets of the suspended consumers with their labels and the
+ * queries they wait for, and its nested providers.
+ * Each query can be refetched or cleared from the panel. Shipped from the
+ * `screen-query/devtools` entry point, so it stays out of the main bundle.
+ *
+ * @example
+ * ```tsx
+ * import { ScreenQueryDevtools } from 'screen-query/devtools'
+ *
+ * <QueryClientProvider client={queryClient}>
+ *   <ScreenQueryProvider>
+ *     <App />
+ *   </ScreenQueryProvider>
+ *   {process.env.NODE_ENV === 'development' && <ScreenQueryDevtools />}
+ * </QueryClientProvider>
+ * ```
+ *
+ * @param props - Component props
+ * @param props.pollInterval - Milliseconds between reads of the provider state (default: 500)
+ * @param props.style - Style of the panel
+ */
+export function ScreenQueryDevtools({
+  pollInterval,
+  style,
+}: ScreenQueryDevtoolsProps) {
+  const providers = useScreenQueryDevtools(pollInterval)
+
+  return (
+    <aside
+      aria-label="Screen query devtools"
+      style={{ fontFamily: 'monospace', fontSize: 12, ...style }}
+    >
+      {providers.length === 0 ? (
+        <p style={{ margin: 0 }}>No mounted ScreenQueryProvider</p>
+      ) : (
+        providers.map((snapshot) => (
+          <ProviderPanel key={snapshot.id} snapshot={snapshot} />
+        ))
+      )}
+    </aside>
+  )
+}
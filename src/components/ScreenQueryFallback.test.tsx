@@ -0,0 +1,107 @@
+import { type QueryClient, useQuery } from '@tanstack/react-query'
+import { render, screen } from '@testing-library/react'
+import { Suspense } from 'react'
+import { useScreenQueryContext } from '~/hooks/useScreenQueryContext'
+import type { ScreenQueryProviderProps } from '~/providers/ScreenQueryProvider'
+import {
+  createQueryClient,
+  createQueryOptions,
+  createWrapper,
+  suppressConsoleError,
+} from '~/test-utils/screen-query'
+import { ScreenQueryFallback } from './ScreenQueryFallback'
+
+/**
+ * Screen suspending on a permanently pending query
+ */
+const PendingScreen = () => {
+  const queryOptions = createQueryOptions(['fallback-pending'], null, {
+    isPending: true,
+  })
+  const query = useQuery(queryOptions)
+  const { getQueryResult } = useScreenQueryContext()
+  getQueryResult([{ ...query, ...queryOptions }])
+  return <div>content</div>
+}
+
+describe('ScreenQueryFallback', () => {
+  let queryClient: QueryClient
+
+  /**
+   * Render the pending screen with ScreenQueryFallback as its fallback
+   */
+  const renderScreen = (
+    providerProps?: Omit<ScreenQueryProviderProps, 'children'>,
+    pendingDelayMs?: number,
+  ) =>
+    render(
+      <Suspense
+        fallback={
+          <ScreenQueryFallback pendingDelayMs={pendingDelayMs}>
+            <div>skeleton</div>
+          </ScreenQueryFallback>
+        }
+      >
+        <PendingScreen />
+      </Suspense>,
+      { wrapper: createWrapper(queryClient, providerProps) },
+    )
+
+  beforeEach(() => {
+    // Suppress console.error including React 18 Suspense warnings
+    suppressConsoleError()
+    queryClient = createQueryClient()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    queryClient.clear()
+  })
+
+  describe('when pendingDelayMs is not set', () => {
+    it('should show the fallback immediately', () => {
+      // Given/When: Render a suspended screen without a pending delay
+      renderScreen()
+
+      // Then: The fallback is shown
+      expect(screen.getByText('skeleton')).toBeDefined()
+    })
+  })
+
+  describe('when pendingDelayMs is set on the provider', () => {
+    it('should show the fallback only after the delay', async () => {
+      // Given/When: Render a suspended screen with a pending delay
+      renderScreen({ pendingDelayMs: 50 })
+
+      // Then: Nothing is shown until the delay elapses
+      expect(screen.queryByText('skeleton')).toBeNull()
+      await screen.findByText('skeleton')
+    })
+
+    it('should prefer the delay passed as a prop', async () => {
+      // Given/When: Render with a long provider delay and a short prop delay
+      renderScreen({ pendingDelayMs: 60_000 }, 20)
+
+      // Then: The fallback is shown after the prop delay
+      expect(screen.queryByText('skeleton')).toBeNull()
+      await screen.findByText('skeleton')
+    })
+  })
+
+  describe('when used outside ScreenQueryProvider', () => {
+    it('should throw error', () => {
+      // Given/When: Render the fallback without a provider
+      const renderOutside = () =>
+        render(
+          <ScreenQueryFallback>
+            <div>skeleton</div>
+          </ScreenQueryFallback>,
+        )
+
+      // Then: Appropriate error message
+      expect(renderOutside).toThrow(
+        'ScreenQueryContext must be used within ScreenQueryProvider',
+      )
+    })
+  })
+})
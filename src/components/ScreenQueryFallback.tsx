@@ -0,0 +1,55 @@
+import type React from 'react'
+import { useContext, useEffect, useState } from 'react'
+import { ScreenQueryRegistryContext } from '~/providers/ScreenQueryProvider'
+
+/**
+ * Suspense fallback that is only shown once the pending delay has elapsed.
+ *
+ * @description
+ * The delay is measured from the start of the provider's current pending period,
+ * so fallbacks of all Suspense boundaries on the screen appear together.
+ * Queries settling before the delay resolve without showing anything.
+ *
+ * @example
+ * ```tsx
+ * <ScreenQueryProvider pendingDelayMs={200} minPendingMs={500}>
+ *   <Suspense fallback={<ScreenQueryFallback><Skeleton /></ScreenQueryFallback>}>
+ *     <Screen />
+ *   </Suspense>
+ * </ScreenQueryProvider>
+ * ```
+ *
+ * @param props - Component props
+ * @param props.children - Fallback to show after the delay
+ * @param props.pendingDelayMs - Delay before showing the fallback (default: the provider's pendingDelayMs)
+ * @throws {Error} When used outside of ScreenQueryProvider
+ */
+export function ScreenQueryFallback({
+  children,
+  pendingDelayMs,
+}: {
+  children: React.ReactNode
+  pendingDelayMs?: number
+}) {
+  const registry = useContext(ScreenQueryRegistryContext)
+  if (!registry) {
+    throw new Error(
+      'ScreenQueryContext must be used within ScreenQueryProvider',
+    )
+  }
+
+  const [remaining] = useState(() =>
+    registry.getRemainingPendingDelay(pendingDelayMs),
+  )
+  const [visible, setVisible] = useState(remaining === 0)
+
+  useEffect(() => {
+    if (visible) {
+      return
+    }
+    const timer = setTimeout(() => setVisible(true), remaining)
+    return () => clearTimeout(timer)
+  }, [visible, remaining])
+
+  return visible ? children : null
+}
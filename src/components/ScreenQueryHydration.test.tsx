@@ -0,0 +1,232 @@
+/// <reference types="node" />
+import { Writable } from 'node:stream'
+import {
+  type QueryClient,
+  QueryClientProvider,
+  useQuery,
+} from '@tanstack/react-query'
+import { act, screen } from '@testing-library/react'
+import { Suspense } from 'react'
+import { hydrateRoot } from 'react-dom/client'
+import { renderToPipeableStream } from 'react-dom/server'
+import { useScreenQueryContext } from '~/hooks/useScreenQueryContext'
+import { ScreenQueryProvider } from '~/providers/ScreenQueryProvider'
+import {
+  createQueryClient,
+  createQueryOptions,
+  suppressConsoleError,
+} from '~/test-utils/screen-query'
+import {
+  hydrateScreenQueries,
+  ScreenQueryHydration,
+} from './ScreenQueryHydration'
+
+describe('ScreenQueryHydration', () => {
+  let queryFn: ReturnType<typeof vi.fn<(key: string) => Promise<string>>>
+
+  /**
+   * Section rendering the data of one query
+   */
+  const Section = ({ name, delay }: { name: string; delay: number }) => {
+    const options = {
+      ...createQueryOptions([name], undefined, { staleTime: Infinity }),
+      queryFn: async () => {
+        await new Promise((resolve) => setTimeout(resolve, delay))
+        return queryFn(name)
+      },
+    }
+    const query = useQuery(options)
+    const { getQueryResult } = useScreenQueryContext()
+    const [data] = getQueryResult([{ ...query, ...options }], { group: name })
+    return <div>{data}</div>
+  }
+
+  /**
+   * App streaming two sections in their own Suspense boundaries
+   */
+  const App = ({
+    queryClient,
+    withGroups = true,
+  }: {
+    queryClient: QueryClient
+    withGroups?: boolean
+  }) => (
+    <QueryClientProvider client={queryClient}>
+      <ScreenQueryProvider>
+        <Suspense fallback={<div>loading user</div>}>
+          <Section name="user" delay={10} />
+          <ScreenQueryHydration group={withGroups ? 'user' : undefined} />
+        </Suspense>
+        <Suspense fallback={<div>loading posts</div>}>
+          <Section name="posts" delay={100} />
+          <ScreenQueryHydration group={withGroups ? 'posts' : undefined} />
+        </Suspense>
+      </ScreenQueryProvider>
+    </QueryClientProvider>
+  )
+
+  /**
+   * Stream the app document as soon as the shell is ready
+   * @param withGroups - If false, ScreenQueryHydration is used without a group
+   * @returns Chunks of the HTML stream
+   */
+  const streamApp = (withGroups?: boolean) =>
+    renderOnServer(
+      <html lang="en">
+        <body>
+          <App queryClient={createQueryClient()} withGroups={withGroups} />
+        </body>
+      </html>,
+      true,
+    )
+
+  /**
+   * Render on the server, as if window was not defined
+   * @param children - Element to render
+   * @param onShellReady - If true, pipe as soon as the shell is ready
+   * @returns Chunks of the HTML stream
+   */
+  const renderOnServer = (children: React.ReactNode, onShellReady: boolean) => {
+    const chunks: string[] = []
+    vi.stubGlobal('window', undefined)
+    return new Promise<string[]>((resolve, reject) => {
+      const writable = new Writable({
+        write(chunk, _, callback) {
+          chunks.push(chunk.toString())
+          callback()
+        },
+        final(callback) {
+          resolve(chunks)
+          callback()
+        },
+      })
+      const { pipe } = renderToPipeableStream(children, {
+        onShellReady: () => onShellReady && pipe(writable),
+        onAllReady: () => !onShellReady && pipe(writable),
+        onShellError: reject,
+      })
+    }).finally(() => vi.unstubAllGlobals())
+  }
+
+  beforeEach(() => {
+    // Suppress console.error including React 18 Suspense warnings
+    suppressConsoleError()
+    queryFn = vi.fn(async (key: string) => `${key} data`)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    document.body.innerHTML = ''
+    delete (globalThis as { __SCREEN_QUERY_STATE__?: unknown })
+      .__SCREEN_QUERY_STATE__
+  })
+
+  describe('when rendered on the server', () => {
+    it('should stream each query with the boundary it suspended', async () => {
+      // Given/When: Stream the app document as soon as the shell is ready
+      const chunks = await streamApp()
+
+      // Then: The shell only contains the fallbacks
+      expect(chunks[0]).toContain('loading user')
+      expect(chunks[0]).not.toContain('__SCREEN_QUERY_STATE__')
+
+      // And: Each boundary streams the state of its own query once
+      const userChunk = chunks.find((chunk) => chunk.includes('user data'))
+      const postsChunk = chunks.find((chunk) => chunk.includes('posts data'))
+      expect(userChunk).toContain('__SCREEN_QUERY_STATE__')
+      expect(userChunk).not.toContain('posts data')
+      expect(postsChunk).toContain('__SCREEN_QUERY_STATE__')
+      expect(postsChunk).not.toContain('user data')
+    })
+
+    it('should scope each boundary to its own queries without a group', async () => {
+      // Given/When: Stream the app with ScreenQueryHydration used without a group
+      const chunks = await streamApp(false)
+
+      // Then: The faster boundary is streamed first, with the state of its own query
+      const userIndex = chunks.findIndex((chunk) => chunk.includes('user data'))
+      const postsIndex = chunks.findIndex((chunk) =>
+        chunk.includes('posts data'),
+      )
+      expect(userIndex).toBeLessThan(postsIndex)
+      expect(chunks[userIndex]).toContain('__SCREEN_QUERY_STATE__')
+      expect(chunks[userIndex]).not.toContain('posts data')
+
+      // And: The slower boundary streams the state of its query
+      expect(chunks[postsIndex]).toContain('__SCREEN_QUERY_STATE__')
+      expect(chunks[postsIndex]).not.toContain('user data')
+    })
+  })
+
+  describe('when the server HTML is hydrated', () => {
+    it('should reveal the streamed queries without refetching', async () => {
+      // Given: The server HTML with its streamed scripts run
+      const chunks = await renderOnServer(
+        <App queryClient={createQueryClient()} />,
+        false,
+      )
+      const html = chunks.join('')
+      const container = document.createElement('div')
+      container.innerHTML = html
+      document.body.appendChild(container)
+      container.querySelectorAll('script').forEach((script) => {
+        new Function(script.textContent ?? '')()
+      })
+      queryFn.mockClear()
+
+      // When: Hydrate the queries and the root
+      const queryClient = createQueryClient()
+      hydrateScreenQueries(queryClient)
+      const onRecoverableError = vi.fn()
+      await act(async () => {
+        hydrateRoot(container, <App queryClient={queryClient} />, {
+          onRecoverableError,
+        })
+      })
+
+      // Then: The data is shown without fetching again or hydration errors
+      expect(screen.getByText('user data')).toBeDefined()
+      expect(screen.getByText('posts data')).toBeDefined()
+      expect(queryFn).not.toHaveBeenCalled()
+      expect(onRecoverableError).not.toHaveBeenCalled()
+    })
+
+    it('should hydrate states streamed after hydrateScreenQueries', () => {
+      // Given: Queries hydrated before any state is streamed
+      const queryClient = createQueryClient()
+      hydrateScreenQueries(queryClient)
+
+      // When: A streamed script pushes a state
+      ;(
+        globalThis as {
+          __SCREEN_QUERY_STATE__?: { push: (state: unknown) => void }
+        }
+      ).__SCREEN_QUERY_STATE__?.push({
+        mutations: [],
+        queries: [
+          {
+            queryKey: ['late'],
+            queryHash: '["late"]',
+            state: {
+              data: 'late data',
+              dataUpdateCount: 1,
+              dataUpdatedAt: Date.now(),
+              error: null,
+              errorUpdateCount: 0,
+              errorUpdatedAt: 0,
+              fetchFailureCount: 0,
+              fetchFailureReason: null,
+              fetchMeta: null,
+              isInvalidated: false,
+              status: 'success',
+              fetchStatus: 'idle',
+            },
+          },
+        ],
+      })
+
+      // Then: The query is hydrated right away
+      expect(queryClient.getQueryData(['late'])).toBe('late data')
+    })
+  })
+})
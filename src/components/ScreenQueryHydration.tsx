@@ -0,0 +1,126 @@
+import {
+  type DehydratedState,
+  hydrate,
+  type QueryClient,
+} from '@tanstack/react-query'
+import { useContext, useId } from 'react'
+import { ScreenQueryRegistryContext } from '~/providers/ScreenQueryProvider'
+
+/**
+ * Global the streamed scripts push the dehydrated states to
+ */
+const STATE_GLOBAL = '__SCREEN_QUERY_STATE__'
+
+/**
+ * Queue of dehydrated states streamed before hydrateScreenQueries is called.
+ * Replaced by hydrateScreenQueries, so later states are hydrated as they arrive.
+ */
+type StateQueue = {
+  push: (...states: DehydratedState[]) => unknown
+}
+
+/**
+ * Serialize a dehydrated state into a script pushing it to the global queue
+ * `<` is escaped so the data cannot close the script element
+ * @param state - Dehydrated state to serialize
+ * @returns Script source
+ */
+function createStateScript(state: DehydratedState) {
+  const json = JSON.stringify(state).replace(/</g, '\\u003c')
+  return `(globalThis.${STATE_GLOBAL}=globalThis.${STATE_GLOBAL}||[]).push(${json})`
+}
+
+/**
+ * Streams the queries of ScreenQueryProvider into the server-rendered HTML.
+ *
+ * @description
+ * On the server, claims the queries of the provider registered since the previous
+ * ScreenQueryHydration, i.e. by the content of its own Suspense boundary, suspends
+ * until those have settled, then renders a script carrying the ones that were not
+ * streamed yet. Place it after the content of each Suspense boundary, so the script
+ * is streamed together with the content it rendered, without waiting for other
+ * boundaries. On the client, it keeps the streamed script as is.
+ *
+ * @example
+ * ```tsx
+ * <ScreenQueryProvider>
+ *   <Suspense fallback={<Loading />}>
+ *     <UserProfile />
+ *     <ScreenQueryHydration />
+ *   </Suspense>
+ * </ScreenQueryProvider>
+ * ```
+ *
+ * @param props - Component props
+ * @param props.group - Only wait for and stream queries of this group (default: all groups)
+ * @throws {Error} When used outside of ScreenQueryProvider
+ */
+export function ScreenQueryHydration({ group }: { group?: string }) {
+  const registry = useContext(ScreenQueryRegistryContext)
+  // Stable across the server's retries of this component
+  const claimId = useId()
+  if (!registry) {
+    throw new Error(
+      'ScreenQueryContext must be used within ScreenQueryProvider',
+    )
+  }
+
+  // The streamed script has already run on the client, so keep it without checking its content
+  if (typeof window !== 'undefined') {
+    return (
+      <script
+        suppressHydrationWarning
+        // biome-ignore lint/security/noDangerouslySetInnerHtml: matches the streamed script without content
+        dangerouslySetInnerHTML={{ __html: '' }}
+      />
+    )
+  }
+
+  // Only the queries registered by the content of this boundary
+  const keyStrings = registry.claimQueries(claimId, group)
+
+  // React Suspense pattern: Wait for the queries of this boundary to settle
+  const pendingPromise = registry.getPendingPromise(group, keyStrings)
+  if (pendingPromise) {
+    throw pendingPromise
+  }
+
+  const state = registry.dehydrateQueries(keyStrings)
+  return (
+    <script
+      // biome-ignore lint/security/noDangerouslySetInnerHtml: serialized JSON with `<` escaped
+      dangerouslySetInnerHTML={{
+        __html: state ? createStateScript(state) : '',
+      }}
+    />
+  )
+}
+
+/**
+ * Hydrate the queries streamed by ScreenQueryHydration into the QueryClient.
+ * Call it before hydrating the root. States streamed afterwards are hydrated
+ * as soon as their script runs, before React hydrates the content they belong to.
+ *
+ * @example
+ * ```tsx
+ * const queryClient = new QueryClient()
+ * hydrateScreenQueries(queryClient)
+ * hydrateRoot(document, <App queryClient={queryClient} />)
+ * ```
+ *
+ * @param queryClient - QueryClient to hydrate the queries into
+ */
+export function hydrateScreenQueries(queryClient: QueryClient) {
+  const target = globalThis as { [STATE_GLOBAL]?: StateQueue }
+  const streamed = target[STATE_GLOBAL]
+  target[STATE_GLOBAL] = {
+    push: (...states) => {
+      states.forEach((state) => {
+        hydrate(queryClient, state)
+      })
+    },
+  }
+  if (Array.isArray(streamed)) {
+    target[STATE_GLOBAL].push(...streamed)
+  }
+}
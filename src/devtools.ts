@@ -0,0 +1,13 @@
+// Components
+export {
+  ScreenQueryDevtools,
+  type ScreenQueryDevtoolsProps,
+} from './components/ScreenQueryDevtools'
+// Hooks
+export { useScreenQueryDevtools } from './hooks/useScreenQueryDevtools'
+// Provider
+export type {
+  ScreenQueryPendingSnapshot,
+  ScreenQueryProviderSnapshot,
+  ScreenQuerySnapshot,
+} from './providers/ScreenQueryProvider'
@@ -0,0 +1,65 @@
+import type { QueryKey } from '@tanstack/react-query'
+
+/**
+ * Failure of a single query reported by ScreenQueryError.
+ */
+export type ScreenQueryFailure = {
+  /**
+   * Key of the failed query
+   */
+  queryKey: QueryKey
+  /**
+   * Error the query failed with
+   */
+  error: Error
+  /**
+   * Number of times the query failed, including retries
+   */
+  failureCount: number
+}
+
+/**
+ * Error thrown by getQueryResult when queries fail without existing data.
+ * Reports every failed query instead of only the first one, so error screens and
+ * telemetry can show all failures. The original errors are kept in `errors`, and
+ * the first one is also the `cause`.
+ *
+ * @example
+ * ```tsx
+ * <ErrorBoundary
+ *   fallbackRender={({ error }) =>
+ *     error instanceof ScreenQueryError ? (
+ *       <Failures failures={error.failures} />
+ *     ) : (
+ *       <Failure />
+ *     )
+ *   }
+ * >
+ *   <Screen />
+ * </ErrorBoundary>
+ * ```
+ */
+export class ScreenQueryError extends AggregateError {
+  /**
+   * Failures of the queries, in the order passed to getQueryResult
+   */
+  readonly failures: readonly ScreenQueryFailure[]
+
+  /**
+   * @param failures - Failures of the queries
+   */
+  constructor(failures: readonly ScreenQueryFailure[]) {
+    super(
+      failures.map((failure) => failure.error),
+      `Queries failed: ${failures
+        .map(
+          (failure) =>
+            `${JSON.stringify(failure.queryKey)} (${failure.error.message})`,
+        )
+        .join(', ')}`,
+      { cause: failures[0]?.error },
+    )
+    this.name = 'ScreenQueryError'
+    this.failures = failures
+  }
+}
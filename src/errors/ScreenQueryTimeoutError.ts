@@ -0,0 +1,42 @@
+import type { QueryKey } from '@tanstack/react-query'
+
+/**
+ * Error thrown by getQueryResult when queries stay pending longer than the suspense timeout.
+ * Thrown to the nearest ErrorBoundary instead of leaving the Suspense fallback on screen.
+ *
+ * @example
+ * ```tsx
+ * <ErrorBoundary
+ *   fallbackRender={({ error }) =>
+ *     error instanceof ScreenQueryTimeoutError ? <Timeout /> : <Failure />
+ *   }
+ * >
+ *   <Screen />
+ * </ErrorBoundary>
+ * ```
+ */
+export class ScreenQueryTimeoutError extends Error {
+  /**
+   * Keys of the queries still pending when the timeout elapsed
+   */
+  readonly queryKeys: readonly QueryKey[]
+  /**
+   * Timeout that elapsed in milliseconds
+   */
+  readonly timeout: number
+
+  /**
+   * @param queryKeys - Keys of the queries still pending
+   * @param timeout - Timeout that elapsed in milliseconds
+   */
+  constructor(queryKeys: readonly QueryKey[], timeout: number) {
+    super(
+      `Queries still pending after ${timeout}ms: ${queryKeys
+        .map((queryKey) => JSON.stringify(queryKey))
+        .join(', ')}`,
+    )
+    this.name = 'ScreenQueryTimeoutError'
+    this.queryKeys = queryKeys
+    this.timeout = timeout
+  }
+}
@@ -2,8 +2,10 @@ import { renderHook, waitFor } from '@testing-library/react'
 import {
   createQueryClient,
   createQueryClientWrapper,
+  createWrapper,
 } from '~/test-utils/screen-query'
 import { useInfiniteQueryKey, useQueryKey } from './useQueryKey'
+import { useScreenQueryContext } from './useScreenQueryContext'
 
 describe('useQueryKey', () => {
   const queryClient = createQueryClient()
@@ -33,6 +35,30 @@ describe('useQueryKey', () => {
     })
     expect(result.current.refetch).toBeInstanceOf(Function)
   })
+
+  it('should carry enabled so getQueryResult types a disabled slot as undefined', () => {
+    // Given: A query only enabled once an id is known
+    const id: number | undefined = undefined
+
+    // When: Its result is passed to getQueryResult
+    const { result } = renderHook(
+      () => {
+        const query = useQueryKey({
+          queryKey: ['user', id],
+          queryFn: async () => ({ name: 'user' }),
+          enabled: id !== undefined,
+        })
+        const [user] = useScreenQueryContext().getQueryResult([query])
+        expectTypeOf(user).toEqualTypeOf<{ name: string } | undefined>()
+        return { query, user }
+      },
+      { wrapper: createWrapper(queryClient) },
+    )
+
+    // Then: enabled is included, and the disabled slot is undefined
+    expect(result.current.query.enabled).toBe(false)
+    expect(result.current.user).toBeUndefined()
+  })
 })
 
 describe('useInfiniteQueryKey', () => {
@@ -9,41 +9,76 @@ import type {
 } from '@tanstack/react-query'
 import { useInfiniteQuery, useQuery } from '@tanstack/react-query'
 
+/**
+ * Query identification passed from the options to the result.
+ */
+type QueryIdentity = {
+  queryKey: QueryKey
+  queryKeyHashFn?(queryKey: QueryKey): string
+}
+
+/**
+ * Options telling whether a query may be disabled, passed from the options to the result,
+ * so getQueryResult types the data of a query that may be disabled as possibly undefined.
+ * @template O - The type of the options
+ */
+type QueryEnabling<O> = {
+  [K in keyof O as K extends 'enabled' | 'queryFn' ? K : never]: O[K]
+}
+
 /**
  * Utility type that adds queryKey property to any type.
  * @template T - The base type to extend
+ * @template O - The type of the options whose `enabled` and `queryFn` are added
  */
-type WithQueryKey<T> = T & { queryKey: QueryKey }
+type WithQueryKey<T, O = unknown> = T & QueryIdentity & QueryEnabling<O>
 
 /**
  * Extended UseQueryResult type that includes queryKey.
  * @template TData - The type of data returned by the query
  * @template TError - The type of error returned by the query
+ * @template TOptions - The type of the options, whose `enabled` and `queryFn` are included
  */
 export type UseQueryKeyResult<
   TData = unknown,
   TError = DefaultError,
-> = WithQueryKey<UseQueryResult<TData, TError>>
+  TOptions = unknown,
+> = WithQueryKey<UseQueryResult<TData, TError>, TOptions>
 
 /**
  * Extended UseInfiniteQueryResult type that includes queryKey.
  * @template TData - The type of data returned by the query
  * @template TError - The type of error returned by the query
+ * @template TOptions - The type of the options, whose `enabled` and `queryFn` are included
  */
 export type UseInfiniteQueryKeyResult<
   TData = unknown,
   TError = DefaultError,
-> = WithQueryKey<UseInfiniteQueryResult<TData, TError>>
+  TOptions = unknown,
+> = WithQueryKey<UseInfiniteQueryResult<TData, TError>, TOptions>
 
 /**
  * Helper function that adds queryKey to a result object.
+ * A custom queryKeyHashFn is added as well, so the key is hashed like the cached query,
+ * and so are `enabled` and `queryFn`, so a query that may be disabled is typed as such.
  * @template T - The type of the result object
+ * @template O - The type of the options
  * @param result - The result object to extend
- * @param queryKey - The query key to add
+ * @param options - The options holding the query key and hash function
  * @returns The result object with queryKey included
  */
-function withQueryKey<T>(result: T, queryKey: QueryKey): WithQueryKey<T> {
-  return { ...result, queryKey }
+export function withQueryKey<T, O extends QueryIdentity>(
+  result: T,
+  options: O,
+): WithQueryKey<T, O> {
+  const { queryKey, queryKeyHashFn } = options
+  return {
+    ...result,
+    queryKey,
+    ...(queryKeyHashFn && { queryKeyHashFn }),
+    ...('enabled' in options && { enabled: options.enabled }),
+    ...('queryFn' in options && { queryFn: options.queryFn }),
+  } as WithQueryKey<T, O>
 }
 
 /**
@@ -73,10 +108,11 @@ export function useQueryKey<
   TError = DefaultError,
   TData = TQueryFnData,
   TQueryKey extends QueryKey = QueryKey,
+  TOptions = unknown,
 >(
-  options: UseQueryOptions<TQueryFnData, TError, TData, TQueryKey>,
-): UseQueryKeyResult<TData, TError> {
-  return withQueryKey(useQuery(options), options.queryKey)
+  options: UseQueryOptions<TQueryFnData, TError, TData, TQueryKey> & TOptions,
+): UseQueryKeyResult<TData, TError, TOptions> {
+  return withQueryKey(useQuery(options), options)
 }
 
 /**
@@ -111,6 +147,7 @@ export function useQueryKey<
  * @template TData - The type of data after transformation
  * @template TQueryKey - The type of the query key
  * @template TPageParam - The type of the page parameter
+ * @template TOptions - The type of the options, whose `enabled` and `queryFn` are included
  * @param options - Standard useInfiniteQuery options
  * @returns UseInfiniteQueryResult with queryKey included
  */
@@ -120,6 +157,7 @@ export function useInfiniteQueryKey<
   TData = InfiniteData<TQueryFnData>,
   TQueryKey extends QueryKey = QueryKey,
   TPageParam = unknown,
+  TOptions = unknown,
 >(
   options: UseInfiniteQueryOptions<
     TQueryFnData,
@@ -127,7 +165,8 @@ export function useInfiniteQueryKey<
     TData,
     TQueryKey,
     TPageParam
-  >,
-): UseInfiniteQueryKeyResult<TData, TError> {
-  return withQueryKey(useInfiniteQuery(options), options.queryKey)
+  > &
+    TOptions,
+): UseInfiniteQueryKeyResult<TData, TError, TOptions> {
+  return withQueryKey(useInfiniteQuery(options), options)
 }
@@ -0,0 +1,161 @@
+import type { QueryClient } from '@tanstack/react-query'
+import { act, render, screen } from '@testing-library/react'
+import { Suspense } from 'react'
+import {
+  createQueryClient,
+  createVersionServer,
+  createWrapper,
+  delay,
+  suppressConsoleError,
+  type VersionServer,
+} from '~/test-utils/screen-query'
+import {
+  type UseScreenMutationOptions,
+  useScreenMutation,
+} from './useScreenMutation'
+import { useScreenQueries } from './useScreenQueries'
+
+describe('useScreenMutation', () => {
+  let queryClient: QueryClient
+  let server: VersionServer
+  let renders: string[]
+  let mutateAsync: (title: string) => Promise<number>
+
+  /**
+   * Render a screen showing a user and its posts with a mutation bumping the version
+   */
+  const renderScreen = (
+    options?: Omit<
+      UseScreenMutationOptions<number, Error, string>,
+      'mutationFn'
+    >,
+  ) => {
+    const Screen = () => {
+      const [user, posts] = useScreenQueries([
+        server.versionQuery('user', 10),
+        server.versionQuery('posts', 30),
+      ])
+      const mutation = useScreenMutation({
+        ...options,
+        mutationFn: async (_: string) => {
+          await delay(5)
+          return ++server.version
+        },
+      })
+      mutateAsync = mutation.mutateAsync
+      renders.push(`${user}, ${posts}`)
+      return <div>{`${user}, ${posts}`}</div>
+    }
+    return render(
+      <Suspense fallback={<div>loading</div>}>
+        <Screen />
+      </Suspense>,
+      { wrapper: createWrapper(queryClient) },
+    )
+  }
+
+  beforeEach(() => {
+    // Suppress console.error including React 18 Suspense warnings
+    suppressConsoleError()
+    // Given: Initialize new QueryClient keeping the data cached while suspended
+    queryClient = createQueryClient()
+    queryClient.setDefaultOptions({ queries: { retry: false } })
+    server = createVersionServer()
+    renders = []
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    // Cleanup after test
+    queryClient.clear()
+  })
+
+  describe('when the mutation succeeds', () => {
+    it('should reveal the refetched queries together before resolving', async () => {
+      // Given: A loaded screen
+      renderScreen()
+      await screen.findByText('user v1, posts v1')
+
+      // When: Run the mutation
+      await act(() => mutateAsync('title'))
+
+      // Then: The screen is updated in one render, never showing the queries half-updated
+      expect(screen.getByText('user v2, posts v2')).toBeDefined()
+      expect(renders).not.toContain('user v2, posts v1')
+    })
+
+    it('should call onSuccess once the screen has been updated', async () => {
+      // Given: A loaded screen whose onSuccess records the rendered text
+      let renderedOnSuccess: string | undefined
+      const onSuccess = vi.fn(() => {
+        renderedOnSuccess = renders.at(-1)
+      })
+      renderScreen({ onSuccess })
+      await screen.findByText('user v1, posts v1')
+
+      // When: Run the mutation
+      await act(() => mutateAsync('title'))
+
+      // Then: onSuccess receives the mutation data after the refetched data is revealed
+      expect(onSuccess).toHaveBeenCalledWith(
+        2,
+        'title',
+        undefined,
+        expect.anything(),
+      )
+      expect(renderedOnSuccess).toBe('user v2, posts v2')
+    })
+
+    it('should only refetch the affected queries', async () => {
+      // Given: A loaded screen refetching the queries returned from the variables
+      const refetchQueries = vi.fn((_: number, title: string) => ({
+        queryKeys: [[title]],
+      }))
+      renderScreen({ refetchQueries })
+      await screen.findByText('user v1, posts v1')
+      server.fetchedKeys = []
+
+      // When: Run the mutation affecting the posts
+      await act(() => mutateAsync('posts'))
+
+      // Then: Only the posts are refetched
+      expect(refetchQueries).toHaveBeenCalledWith(2, 'posts')
+      expect(server.fetchedKeys).toEqual(['posts'])
+      expect(screen.getByText('user v1, posts v2')).toBeDefined()
+    })
+  })
+
+  describe('when the screen unmounts during the mutation', () => {
+    it('should still resolve the mutation', async () => {
+      // Given: A loaded screen running a mutation
+      const { unmount } = renderScreen()
+      await screen.findByText('user v1, posts v1')
+      const mutation = mutateAsync('title')
+
+      // When: Unmount the screen
+      unmount()
+
+      // Then: The mutation resolves without waiting for a commit
+      await expect(mutation).resolves.toBe(2)
+    })
+  })
+
+  describe('when the mutation fails', () => {
+    it('should not refetch the screen queries', async () => {
+      // Given: A loaded screen whose mutation fails
+      renderScreen({
+        onMutate: () => {
+          throw new Error('Mutation failed')
+        },
+      })
+      await screen.findByText('user v1, posts v1')
+      server.fetchedKeys = []
+
+      // When: Run the mutation
+      await act(() => expect(mutateAsync('title')).rejects.toThrow())
+
+      // Then: No query is refetched
+      expect(server.fetchedKeys).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,116 @@
+import {
+  type DefaultError,
+  type UseMutationOptions,
+  type UseMutationResult,
+  useMutation,
+} from '@tanstack/react-query'
+import { useEffect, useRef } from 'react'
+import type { RefetchQueriesOptions } from '~/providers/ScreenQueryProvider'
+import { useScreenQueryContext } from './useScreenQueryContext'
+
+/**
+ * Options for useScreenMutation.
+ * @template TData - The type of the data returned by the mutation
+ * @template TError - The type of the error of the mutation
+ * @template TVariables - The type of the variables of the mutation
+ * @template TOnMutateResult - The type returned by onMutate
+ */
+export type UseScreenMutationOptions<
+  TData = unknown,
+  TError = DefaultError,
+  TVariables = void,
+  TOnMutateResult = unknown,
+> = UseMutationOptions<TData, TError, TVariables, TOnMutateResult> & {
+  /**
+   * Registered queries affected by the mutation, refetched on success
+   * Group name or refetchQueries filters, or a function returning them from the
+   * mutation data and variables (default: all registered queries)
+   */
+  refetchQueries?:
+    | string
+    | RefetchQueriesOptions
+    | ((data: TData, variables: TVariables) => string | RefetchQueriesOptions)
+}
+
+/**
+ * Custom hook that wraps useMutation and refreshes the affected screen queries.
+ *
+ * @description
+ * On success, refetches the affected registered queries through refetchQueries,
+ * so their data is held back and the screen is updated in a single render instead
+ * of query by query as with invalidateQueries. onSuccess is called and the mutation
+ * is resolved only after the screen has been updated.
+ *
+ * @example
+ * ```tsx
+ * const { mutate } = useScreenMutation({
+ *   mutationFn: (title: string) => createPost(userId, title),
+ *   refetchQueries: { queryKeys: [['posts', userId]] },
+ * })
+ * ```
+ *
+ * @template TData - The type of the data returned by the mutation
+ * @template TError - The type of the error of the mutation
+ * @template TVariables - The type of the variables of the mutation
+ * @template TOnMutateResult - The type returned by onMutate
+ * @param options - useMutation options and the queries to refetch
+ * @returns Result of useMutation
+ * @throws {Error} When used outside of ScreenQueryProvider
+ */
+export function useScreenMutation<
+  TData = unknown,
+  TError = DefaultError,
+  TVariables = void,
+  TOnMutateResult = unknown,
+>({
+  refetchQueries: refetchOptions,
+  onSuccess,
+  ...options
+}: UseScreenMutationOptions<
+  TData,
+  TError,
+  TVariables,
+  TOnMutateResult
+>): UseMutationResult<TData, TError, TVariables, TOnMutateResult> {
+  const { refetchQueries } = useScreenQueryContext()
+  const commitListenersRef = useRef<Set<() => void>>(undefined)
+
+  // Track mutations waiting for a commit while mounted, and release them on unmount
+  useEffect(() => {
+    const commitListeners = new Set<() => void>()
+    commitListenersRef.current = commitListeners
+    return () => {
+      commitListenersRef.current = undefined
+      commitListeners.forEach((listener) => {
+        listener()
+      })
+    }
+  }, [])
+
+  // Notify mutations waiting for the refetched data to be committed
+  useEffect(() => {
+    commitListenersRef.current?.forEach((listener) => {
+      listener()
+    })
+    commitListenersRef.current?.clear()
+  })
+
+  return useMutation({
+    ...options,
+    onSuccess: async (data, variables, ...rest) => {
+      // Resolve the mutation only once the refetched data is committed
+      await refetchQueries(
+        typeof refetchOptions === 'function'
+          ? refetchOptions(data, variables)
+          : refetchOptions,
+      )
+      const commitListeners = commitListenersRef.current
+      if (commitListeners) {
+        await new Promise<void>((resolve) => {
+          commitListeners.add(resolve)
+        })
+      }
+      return onSuccess?.(data, variables, ...rest)
+    },
+  })
+}
@@ -0,0 +1,133 @@
+import { infiniteQueryOptions } from '@tanstack/react-query'
+import { screen } from '@testing-library/react'
+import {
+  createMockUser,
+  createQueryOptions,
+  setupScreenQueryTest,
+} from '~/test-utils/screen-query'
+import { useScreenQueries } from './useScreenQueries'
+
+describe('useScreenQueries', () => {
+  const screenTest = setupScreenQueryTest()
+  const { renderScreen } = screenTest
+
+  describe('when all queries succeed', () => {
+    it('should return the typed data tuple once every query is loaded', async () => {
+      // Given: A screen declaring a user and its posts
+      const Screen = () => {
+        const [user, posts] = useScreenQueries([
+          createQueryOptions(['user'], createMockUser(), { delay: 10 }),
+          createQueryOptions(['posts'], ['post 1', 'post 2']),
+        ])
+        expectTypeOf(user).toEqualTypeOf<{ id: number; name: string }>()
+        expectTypeOf(posts).toEqualTypeOf<string[]>()
+        return <div>{`${user.name}: ${posts.join(',')}`}</div>
+      }
+
+      // When: Render the screen
+      renderScreen(Screen)
+
+      // Then: Both queries are revealed together
+      expect(screen.getByText('loading')).toBeDefined()
+      await screen.findByText('Test User: post 1,post 2')
+    })
+
+    it('should return the value combined from the data', async () => {
+      // Given: A screen combining the user and its posts
+      const Screen = () => {
+        const profile = useScreenQueries(
+          [
+            createQueryOptions(['user'], createMockUser()),
+            createQueryOptions(['posts'], ['post 1', 'post 2']),
+          ],
+          {
+            combine: ([user, posts]) => ({ ...user, postCount: posts.length }),
+          },
+        )
+        expectTypeOf(profile).toEqualTypeOf<{
+          postCount: number
+          id: number
+          name: string
+        }>()
+        return <div>{`${profile.name}: ${profile.postCount} posts`}</div>
+      }
+
+      // When: Render the screen
+      renderScreen(Screen)
+
+      // Then: The combined value is rendered
+      await screen.findByText('Test User: 2 posts')
+    })
+  })
+
+  describe('when a query fails', () => {
+    it('should throw ScreenQueryError for required queries', async () => {
+      // Given: A screen whose posts fail to load
+      const postsError = new Error('Posts failed')
+      const Screen = () => {
+        const [user] = useScreenQueries([
+          createQueryOptions(['user'], 'user'),
+          createQueryOptions<string>(['posts'], undefined, {
+            shouldReject: true,
+            rejectWith: postsError,
+          }),
+        ])
+        return <div>{user}</div>
+      }
+
+      // When: Render the screen
+      renderScreen(Screen)
+      await screen.findByText('failed')
+
+      // Then: The failure is thrown
+      expect(screenTest.queryError?.failures).toEqual([
+        { queryKey: ['posts'], error: postsError, failureCount: 1 },
+      ])
+    })
+
+    it('should return the failure of optional queries', async () => {
+      // Given: A screen whose optional posts fail to load
+      const Screen = () => {
+        const [user, posts] = useScreenQueries([
+          createQueryOptions(['user'], 'user'),
+          {
+            ...createQueryOptions<string>(['posts'], undefined, {
+              shouldReject: true,
+              rejectWith: new Error('Posts failed'),
+            }),
+            optional: true,
+          },
+        ])
+        expectTypeOf(posts.error).toEqualTypeOf<Error | undefined>()
+        return <div>{`${user}: ${posts.error?.message}`}</div>
+      }
+
+      // When: Render the screen
+      renderScreen(Screen)
+
+      // Then: The failure is rendered instead of thrown
+      await screen.findByText('user: Posts failed')
+      expect(screenTest.queryError).toBeUndefined()
+    })
+  })
+
+  describe('when infinite query options are passed', () => {
+    it('should reject them, as useQueries would run them as plain queries', () => {
+      // Given: Options of an infinite query
+      const feedOptions = infiniteQueryOptions({
+        queryKey: ['feed'],
+        queryFn: async ({ pageParam }) => `page ${pageParam}`,
+        initialPageParam: 1,
+        getNextPageParam: (_lastPage, pages) => pages.length + 1,
+      })
+
+      // Then: The queries parameter does not accept them
+      expectTypeOf<[typeof feedOptions]>().not.toExtend<
+        Parameters<typeof useScreenQueries>[0]
+      >()
+      expectTypeOf<[ReturnType<typeof createQueryOptions<string>>]>().toExtend<
+        Parameters<typeof useScreenQueries>[0]
+      >()
+    })
+  })
+})
@@ -0,0 +1,85 @@
+import { type UseQueryOptions, useQueries } from '@tanstack/react-query'
+import type {
+  GetQueryResultOptions,
+  ScreenQueryOptions,
+  ScreenQueryOptionsData,
+} from '~/providers/ScreenQueryProvider'
+import { withQueryKey } from './useQueryKey'
+import { useScreenQueryContext } from './useScreenQueryContext'
+
+/**
+ * Query options accepted by useScreenQueries, as passed to useQuery.
+ * useQueries runs every entry as a plain query, so options of infinite queries,
+ * which carry initialPageParam, are rejected.
+ */
+export type UseScreenQueriesQuery = ScreenQueryOptions &
+  // biome-ignore lint/suspicious/noExplicitAny: the data of each entry is typed by ScreenQueryOptionsData
+  UseQueryOptions<any, any, any, any> & {
+    initialPageParam?: never
+  }
+
+/**
+ * Options for useScreenQueries.
+ * @template D - The type of the data tuple of the queries
+ * @template R - The type returned by combine
+ */
+export type UseScreenQueriesOptions<D, R> = GetQueryResultOptions & {
+  /**
+   * Combine the data of the queries into a single value (default: the data tuple)
+   */
+  combine?: (data: D) => R
+}
+
+/**
+ * Custom hook that declares queries and synchronizes them with the provider.
+ *
+ * @description
+ * Runs the queries with useQueries and passes their results to getQueryResult,
+ * so the component suspends until every query of its group is loaded and throws
+ * failures to the nearest ErrorBoundary. Entries with `optional: true` return
+ * `{ data?, error? }` instead of throwing.
+ *
+ * @example
+ * ```tsx
+ * // Data tuple typed from the query options
+ * const [user, posts] = useScreenQueries([
+ *   { queryKey: ['user', userId], queryFn: () => fetchUser(userId) },
+ *   { queryKey: ['posts', userId], queryFn: () => fetchPosts(userId) },
+ * ])
+ *
+ * // Combined into a single value
+ * const profile = useScreenQueries([userOptions, postsOptions], {
+ *   combine: ([user, posts]) => ({ ...user, posts }),
+ * })
+ * ```
+ *
+ * @template T - The type of the query options
+ * @template R - The type returned by combine
+ * @param queries - Options of the queries, as passed to useQuery
+ * @param options - getQueryResult options and combine function
+ * @returns Data tuple in the same order as the queries, or the combined value
+ * @throws {Promise} During loading state (handled by Suspense)
+ * @throws {ScreenQueryError} When queries have errors (handled by ErrorBoundary)
+ */
+export function useScreenQueries<
+  const T extends readonly UseScreenQueriesQuery[],
+  R = ScreenQueryOptionsData<T>,
+>(
+  queries: T,
+  options?: UseScreenQueriesOptions<ScreenQueryOptionsData<T>, R>,
+): R {
+  const { combine, ...getQueryResultOptions } = { ...options }
+  const results = useQueries({
+    queries,
+  })
+  const { getQueryResult } = useScreenQueryContext()
+
+  const data = getQueryResult(
+    results.map((result, index) => ({
+      ...withQueryKey(result, queries[index]),
+      optional: queries[index].optional,
+    })),
+    getQueryResultOptions,
+  ) as ScreenQueryOptionsData<T>
+  return combine ? combine(data) : (data as R)
+}
@@ -1,34 +1,118 @@
-import { useContext } from 'react'
-import { ScreenQueryContext } from '~/providers/ScreenQueryProvider'
+import { useCallback, useContext, useEffect, useState } from 'react'
+import {
+  createQueryOwner,
+  type GetQueryResultOptions,
+  type QueryStage,
+  ScreenQueryContext,
+  type ScreenQueryContextValue,
+  type ScreenQueryOptions,
+  type ScreenQueryRegistry,
+  ScreenQueryRegistryContext,
+  type ScreenQueryResult,
+} from '~/providers/ScreenQueryProvider'
 
 /**
  * Hook to access ScreenQueryProvider context.
  * Provides methods to synchronously manage multiple queries.
  *
+ * Queries passed to `getQueryResult`, `getQueryResults` or `readQueries` are registered on
+ * behalf of the calling component: they stay registered while the component is
+ * mounted and uses them, and are unregistered (with their observers destroyed) once no mounted
+ * component uses them anymore.
+ *
+ * Pass the name of an ancestor ScreenQueryProvider to register queries in, and
+ * refetch or clear the queries of, that provider instead of the nearest one.
+ *
  * @example
  * ```tsx
- * const { getQueryResult, refetchQueries, clearCache } = useScreenQueryContext()
+ * const { getQueryResult, readQueries, refetchQueries, clearCache } = useScreenQueryContext()
  *
  * // Get data from multiple queries synchronously
  * const [userData, postsData] = getQueryResult([userQuery, postsQuery])
  *
+ * // Get full query results, e.g. to show a refetch indicator
+ * const [user] = getQueryResults([userQuery])
+ *
+ * // Get data from query options without calling useQuery
+ * const [settings] = readQueries([settingsQueryOptions])
+ *
  * // Refetch all registered queries
  * await refetchQueries()
  *
  * // Clear error state queries
  * await clearCache('error')
+ *
+ * // Target the ancestor provider named 'screen'
+ * const screenContext = useScreenQueryContext('screen')
+ * await screenContext.refetchQueries()
  * ```
  *
+ * @param name - Name of the ancestor ScreenQueryProvider to target (default: the nearest provider)
  * @returns Context value with query management methods
- * @throws {Error} When used outside of ScreenQueryProvider
+ * @throws {Error} When used outside of ScreenQueryProvider, or no ancestor provider has the name
  */
-export function useScreenQueryContext() {
+export function useScreenQueryContext(name?: string): ScreenQueryContextValue {
   const context = useContext(ScreenQueryContext)
-  if (!context) {
+  const nearestRegistry = useContext(ScreenQueryRegistryContext)
+  if (!context || !nearestRegistry) {
     throw new Error(
       'ScreenQueryContext must be used within ScreenQueryProvider',
     )
   }
 
-  return context
+  // Walk up to the named provider
+  let registry: ScreenQueryRegistry | undefined = nearestRegistry
+  while (name !== undefined && registry && registry.name !== name) {
+    registry = registry.parent
+  }
+  if (!registry) {
+    throw new Error(`No ScreenQueryProvider named "${name}" found`)
+  }
+
+  const [owner] = useState(createQueryOwner)
+  // Collect the queries registered during this render
+  owner.rendered = new Map()
+
+  const getQueryResult = useCallback(
+    (
+      results: readonly ScreenQueryResult[],
+      stage?: QueryStage | GetQueryResultOptions,
+      options?: GetQueryResultOptions,
+    ) =>
+      typeof stage === 'function'
+        ? registry.getQueryResult(results, options, owner, stage)
+        : registry.getQueryResult(results, stage, owner),
+    [registry, owner],
+  ) as ScreenQueryContextValue['getQueryResult']
+
+  const getQueryResults = useCallback(
+    (results: readonly ScreenQueryResult[], options?: GetQueryResultOptions) =>
+      registry.getQueryResults(results, options, owner),
+    [registry, owner],
+  ) as ScreenQueryContextValue['getQueryResults']
+
+  const readQueries = useCallback(
+    (queries: readonly ScreenQueryOptions[], options?: GetQueryResultOptions) =>
+      registry.readQueries(queries, options, owner),
+    [registry, owner],
+  ) as ScreenQueryContextValue['readQueries']
+
+  // Retain the queries of every committed render
+  useEffect(() => {
+    registry.commit(owner)
+  })
+
+  // Release all queries on unmount, or when targeting another provider.
+  // The registry object changes with the provider props, its release does not
+  const { release } = registry
+  useEffect(() => () => release(owner), [release, owner])
+
+  return {
+    ...context,
+    getQueryResult,
+    getQueryResults,
+    readQueries,
+    refetchQueries: registry.refetchQueries,
+    clearCache: registry.clearCache,
+  }
 }
@@ -0,0 +1,163 @@
+import { type QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { act, render } from '@testing-library/react'
+import { Suspense } from 'react'
+import {
+  ScreenQueryProvider,
+  type ScreenQueryProviderSnapshot,
+} from '~/providers/ScreenQueryProvider'
+import { defineScreen } from '~/screens/defineScreen'
+import { createQueryClient, delay } from '~/test-utils/screen-query'
+import { useScreenQueries } from './useScreenQueries'
+import { useScreenQueryDevtools } from './useScreenQueryDevtools'
+
+describe('useScreenQueryDevtools', () => {
+  let queryClient: QueryClient
+  let snapshots: ScreenQueryProviderSnapshot[]
+
+  /**
+   * Component recording the snapshots returned by the hook
+   */
+  const Devtools = () => {
+    snapshots = useScreenQueryDevtools(10)
+    return null
+  }
+
+  beforeEach(() => {
+    queryClient = createQueryClient()
+    snapshots = []
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+  })
+
+  it('should list the root providers of the QueryClient with their descendants', async () => {
+    // Given: A screen with a nested provider, and a provider of another QueryClient
+    render(
+      <>
+        <QueryClientProvider client={queryClient}>
+          <ScreenQueryProvider name="screen">
+            <ScreenQueryProvider name="modal">{null}</ScreenQueryProvider>
+          </ScreenQueryProvider>
+          <Devtools />
+        </QueryClientProvider>
+        <QueryClientProvider client={createQueryClient()}>
+          <ScreenQueryProvider name="other">{null}</ScreenQueryProvider>
+        </QueryClientProvider>
+      </>,
+    )
+
+    // When: Let the hook read the providers
+    await act(() => delay(20))
+
+    // Then: Only the providers of the same QueryClient are listed
+    expect(snapshots).toEqual([
+      {
+        id: expect.any(String),
+        name: 'screen',
+        queries: [],
+        pending: [],
+        children: [
+          {
+            id: expect.any(String),
+            name: 'modal',
+            queries: [],
+            pending: [],
+            children: [],
+          },
+        ],
+      },
+    ])
+    expect(snapshots[0].id).not.toBe(snapshots[0].children[0].id)
+  })
+
+  it('should keep the id of a provider across reads', async () => {
+    // Given: A mounted provider, read once
+    render(
+      <QueryClientProvider client={queryClient}>
+        <ScreenQueryProvider name="screen">{null}</ScreenQueryProvider>
+        <Devtools />
+      </QueryClientProvider>,
+    )
+    await act(() => delay(20))
+    const [{ id }] = snapshots
+
+    // When: Let the hook read the provider again
+    await act(() => delay(20))
+
+    // Then: The provider keeps its id
+    expect(snapshots[0].id).toBe(id)
+  })
+
+  it('should list the labels of the consumers suspended on a query set', async () => {
+    // Given: Labelled and unlabelled sections suspended on the same never-settling query
+    const PendingSection = ({ label }: { label?: string }) => {
+      useScreenQueries(
+        [
+          {
+            queryKey: ['pending'],
+            queryFn: () => new Promise<string>(() => {}),
+          },
+        ],
+        { label },
+      )
+      return null
+    }
+    render(
+      <QueryClientProvider client={queryClient}>
+        <ScreenQueryProvider name="screen">
+          <Suspense fallback={null}>
+            <PendingSection label="first" />
+          </Suspense>
+          <Suspense fallback={null}>
+            <PendingSection label="second" />
+          </Suspense>
+          <Suspense fallback={null}>
+            <PendingSection />
+          </Suspense>
+        </ScreenQueryProvider>
+        <Devtools />
+      </QueryClientProvider>,
+    )
+
+    // When: Let the sections retry and the hook read the provider
+    await act(() => delay(20))
+
+    // Then: Each labelled section is listed once
+    expect(snapshots[0].pending).toEqual([
+      expect.objectContaining({
+        keyStrings: ['["pending"]'],
+        consumers: ['first', 'second'],
+      }),
+    ])
+  })
+
+  it('should list a registered query removed from the cache as pending', async () => {
+    // Given: A screen whose query is removed from the cache by someone else
+    const screen = defineScreen(() => [
+      { queryKey: ['user'], queryFn: () => 'user', enabled: false },
+    ])
+    render(
+      <QueryClientProvider client={queryClient}>
+        <ScreenQueryProvider screen={screen}>{null}</ScreenQueryProvider>
+        <Devtools />
+      </QueryClientProvider>,
+    )
+    queryClient.removeQueries({ queryKey: ['user'] })
+
+    // When: Let the hook read the provider
+    await act(() => delay(20))
+
+    // Then: The query is listed as pending and idle
+    expect(snapshots[0].queries).toEqual([
+      expect.objectContaining({
+        keyString: '["user"]',
+        queryKey: ['user'],
+        groups: ['default'],
+        status: 'pending',
+        fetchStatus: 'idle',
+        held: false,
+      }),
+    ])
+  })
+})
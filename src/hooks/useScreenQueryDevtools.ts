@@ -0,0 +1,50 @@
+import { useQueryClient } from '@tanstack/react-query'
+import { useEffect, useState } from 'react'
+import {
+  getRootRegistries,
+  type ScreenQueryProviderSnapshot,
+} from '~/providers/ScreenQueryProvider'
+
+/**
+ * Custom hook that reads the state of the mounted ScreenQueryProviders.
+ *
+ * @description
+ * Lists every ScreenQueryProvider mounted with the QueryClient of the calling
+ * component, with its registered queries, the query sets of the suspended consumers
+ * with their labels and the queries they wait for, and its nested providers.
+ * Each snapshot carries the id of its provider, stable while it is mounted, e.g. to
+ * key rendered lists. Provider state lives in refs that notify nobody, so the
+ * snapshots are re-read on an interval.
+ *
+ * @example
+ * ```tsx
+ * // Render the state with your own components, e.g. on React Native
+ * const providers = useScreenQueryDevtools()
+ *
+ * return <ProviderList providers={providers} />
+ * ```
+ *
+ * @param pollInterval - Milliseconds between reads (default: 500)
+ * @returns Snapshots of the root providers, in mount order
+ */
+export function useScreenQueryDevtools(
+  pollInterval = 500,
+): ScreenQueryProviderSnapshot[] {
+  const queryClient = useQueryClient()
+  const [snapshots, setSnapshots] = useState<ScreenQueryProviderSnapshot[]>([])
+
+  useEffect(() => {
+    const update = () => {
+      setSnapshots(
+        getRootRegistries(queryClient).map((registry) =>
+          registry.getSnapshot(),
+        ),
+      )
+    }
+    update()
+    const timer = setInterval(update, pollInterval)
+    return () => clearInterval(timer)
+  }, [queryClient, pollInterval])
+
+  return snapshots
+}
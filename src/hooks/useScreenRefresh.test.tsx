@@ -0,0 +1,126 @@
+import { type QueryClient, useQuery } from '@tanstack/react-query'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { ScreenQueryError } from '~/errors/ScreenQueryError'
+import {
+  createQueryClient,
+  createWrapper,
+  delay,
+  suppressConsoleError,
+} from '~/test-utils/screen-query'
+import { useScreenQueryContext } from './useScreenQueryContext'
+import { useScreenRefresh } from './useScreenRefresh'
+
+describe('useScreenRefresh', () => {
+  let queryClient: QueryClient
+  let queryFn: ReturnType<typeof vi.fn<() => Promise<string>>>
+
+  /**
+   * Render a screen registering a user query, with the refresh state
+   */
+  const renderScreen = async () => {
+    const options = { queryKey: ['user'], queryFn }
+    const { result } = renderHook(
+      () => {
+        const query = useQuery(options)
+        const { getQueryResult } = useScreenQueryContext()
+        if (query.isSuccess) {
+          getQueryResult([{ ...query, ...options }])
+        }
+        return { isSuccess: query.isSuccess, ...useScreenRefresh() }
+      },
+      { wrapper: createWrapper(queryClient) },
+    )
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true)
+    })
+    queryFn.mockClear()
+    return result
+  }
+
+  beforeEach(() => {
+    // Suppress console.error including React 18 Suspense warnings
+    suppressConsoleError()
+    // Given: Initialize new QueryClient
+    queryClient = createQueryClient()
+    queryFn = vi.fn(async () => {
+      await delay(10)
+      return 'user'
+    })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    // Cleanup after test
+    queryClient.clear()
+  })
+
+  describe('when refreshing', () => {
+    it('should track the refresh state', async () => {
+      // Given: A loaded screen
+      const result = await renderScreen()
+      expect(result.current.isRefreshing).toBe(false)
+      expect(result.current.lastRefreshedAt).toBeUndefined()
+
+      // When: Start a refresh
+      let refreshPromise: Promise<void> | undefined
+      act(() => {
+        refreshPromise = result.current.refresh()
+      })
+
+      // Then: The refresh is in progress until the queries are refetched
+      expect(result.current.isRefreshing).toBe(true)
+      await act(() => refreshPromise)
+      expect(result.current.isRefreshing).toBe(false)
+      expect(result.current.lastRefreshedAt).toBeTypeOf('number')
+      expect(result.current.error).toBeUndefined()
+      expect(queryFn).toHaveBeenCalledTimes(1)
+    })
+
+    it('should join the refresh in progress', async () => {
+      // Given: A loaded screen
+      const result = await renderScreen()
+
+      // When: Refresh twice while the first refresh is in progress
+      let promises: Promise<void>[] = []
+      act(() => {
+        promises = [result.current.refresh(), result.current.refresh()]
+      })
+      await act(() => Promise.all(promises))
+
+      // Then: Both calls share one refetch
+      expect(promises[0]).toBe(promises[1])
+      expect(queryFn).toHaveBeenCalledTimes(1)
+
+      // And: A later call starts a new refresh
+      await act(() => result.current.refresh())
+      expect(queryFn).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('when the refetch fails', () => {
+    it('should report the error without rejecting', async () => {
+      // Given: A loaded screen whose next fetch fails
+      const result = await renderScreen()
+      const refreshError = new Error('Refresh failed')
+      queryFn.mockRejectedValueOnce(refreshError)
+
+      // When: Refresh
+      await act(() => result.current.refresh())
+
+      // Then: The failure is exposed as a ScreenQueryError
+      expect(result.current.isRefreshing).toBe(false)
+      expect(result.current.error).toBeInstanceOf(ScreenQueryError)
+      expect((result.current.error as ScreenQueryError).errors).toEqual([
+        refreshError,
+      ])
+      expect(result.current.lastRefreshedAt).toBeUndefined()
+
+      // When: Refresh successfully
+      await act(() => result.current.refresh())
+
+      // Then: The error is cleared
+      expect(result.current.error).toBeUndefined()
+      expect(result.current.lastRefreshedAt).toBeTypeOf('number')
+    })
+  })
+})
@@ -0,0 +1,94 @@
+import { useCallback, useRef, useState } from 'react'
+import type { RefetchQueriesOptions } from '~/providers/ScreenQueryProvider'
+import { useScreenQueryContext } from './useScreenQueryContext'
+
+/**
+ * State of the refresh returned by useScreenRefresh.
+ */
+export type UseScreenRefreshResult = {
+  /**
+   * Refetch the queries, joining the refresh already in progress if any
+   * Never rejects; a failure is reported through `error`
+   */
+  refresh: () => Promise<void>
+  /**
+   * True while a refresh is in progress
+   */
+  isRefreshing: boolean
+  /**
+   * Time the last successful refresh completed at, in milliseconds
+   */
+  lastRefreshedAt: number | undefined
+  /**
+   * Error of the last refresh, cleared by the next successful refresh
+   */
+  error: Error | undefined
+}
+
+/**
+ * Custom hook that refreshes the screen queries and tracks the refresh state.
+ *
+ * @description
+ * Refetches the registered queries through refetchQueries, so the refetched data is
+ * revealed in a single update. Calls made while a refresh is in progress return the
+ * same promise instead of starting duplicate refetches. Queries that fail to refetch
+ * are reported through `error` as a ScreenQueryError.
+ *
+ * @example
+ * ```tsx
+ * const { refresh, isRefreshing } = useScreenRefresh()
+ *
+ * return (
+ *   <ScrollView
+ *     refreshControl={
+ *       <RefreshControl refreshing={isRefreshing} onRefresh={refresh} />
+ *     }
+ *   />
+ * )
+ * ```
+ *
+ * @param options - Group name, or filters for the queries to refresh (default: all registered queries)
+ * @returns Refresh function and state
+ * @throws {Error} When used outside of ScreenQueryProvider
+ */
+export function useScreenRefresh(
+  options?: string | RefetchQueriesOptions,
+): UseScreenRefreshResult {
+  const { refetchQueries } = useScreenQueryContext()
+  const refreshPromiseRef = useRef<Promise<void>>(undefined)
+  const [state, setState] = useState<Omit<UseScreenRefreshResult, 'refresh'>>({
+    isRefreshing: false,
+    lastRefreshedAt: undefined,
+    error: undefined,
+  })
+
+  const refresh = useCallback(() => {
+    // Join the refresh in progress
+    if (refreshPromiseRef.current) {
+      return refreshPromiseRef.current
+    }
+
+    setState((current) => ({ ...current, isRefreshing: true }))
+    const promise = refetchQueries({
+      ...(typeof options === 'string' ? { group: options } : options),
+      throwOnError: true,
+    }).then(
+      () => {
+        setState({
+          isRefreshing: false,
+          lastRefreshedAt: Date.now(),
+          error: undefined,
+        })
+      },
+      (error: Error) => {
+        setState((current) => ({ ...current, isRefreshing: false, error }))
+      },
+    )
+    refreshPromiseRef.current = promise.finally(() => {
+      refreshPromiseRef.current = undefined
+    })
+    return refreshPromiseRef.current
+  }, [refetchQueries, options])
+
+  return { ...state, refresh }
+}
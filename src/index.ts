@@ -1,3 +1,15 @@
+// Components
+export { ScreenQueryFallback } from './components/ScreenQueryFallback'
+export {
+  hydrateScreenQueries,
+  ScreenQueryHydration,
+} from './components/ScreenQueryHydration'
+// Errors
+export {
+  ScreenQueryError,
+  type ScreenQueryFailure,
+} from './errors/ScreenQueryError'
+export { ScreenQueryTimeoutError } from './errors/ScreenQueryTimeoutError'
 // Hooks
 export {
   type UseInfiniteQueryKeyResult,
@@ -5,11 +17,43 @@ export {
   useInfiniteQueryKey,
   useQueryKey,
 } from './hooks/useQueryKey'
+export {
+  type UseScreenMutationOptions,
+  useScreenMutation,
+} from './hooks/useScreenMutation'
+export {
+  type UseScreenQueriesOptions,
+  type UseScreenQueriesQuery,
+  useScreenQueries,
+} from './hooks/useScreenQueries'
 export { useScreenQueryContext } from './hooks/useScreenQueryContext'
+export {
+  type UseScreenRefreshResult,
+  useScreenRefresh,
+} from './hooks/useScreenRefresh'
 // Provider
 export {
+  type ClearCacheMode,
+  type ClearCacheOptions,
   type ClearCacheStatus,
+  type GetQueryResultOptions,
+  type OptionalQueryResult,
+  type OptionalScreenQueryResult,
+  type QueryStage,
+  type RefetchQueriesOptions,
   ScreenQueryContext,
+  type ScreenQueryEventSource,
+  type ScreenQueryOptions,
+  type ScreenQueryOptionsData,
   ScreenQueryProvider,
+  type ScreenQueryProviderProps,
   type ScreenQueryResult,
+  type SynchronizedQueryResult,
+  type ThrowOnError,
 } from './providers/ScreenQueryProvider'
+// Screens
+export {
+  defineScreen,
+  prefetchScreen,
+  type ScreenDefinition,
+} from './screens/defineScreen'
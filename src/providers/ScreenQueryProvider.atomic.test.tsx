@@ -0,0 +1,148 @@
+import type { QueryClient } from '@tanstack/react-query'
+import { act, render, screen } from '@testing-library/react'
+import { Suspense, useEffect } from 'react'
+import { useScreenQueries } from '~/hooks/useScreenQueries'
+import { useScreenQueryContext } from '~/hooks/useScreenQueryContext'
+import {
+  createQueryClient,
+  createVersionServer,
+  createWrapper,
+  delay,
+  suppressConsoleError,
+  type VersionServer,
+} from '~/test-utils/screen-query'
+
+describe('ScreenQueryProvider.atomic', () => {
+  let queryClient: QueryClient
+  let server: VersionServer
+  let commits: string[]
+
+  /**
+   * Section rendering the data of one query, recording the screen after each commit
+   */
+  const Section = ({ name, ms }: { name: string; ms: number }) => {
+    const [data] = useScreenQueries([server.versionQuery(name, ms)])
+    useEffect(() => {
+      commits.push(document.body.textContent ?? '')
+    })
+    return <p>{data}</p>
+  }
+
+  /**
+   * Section reading the data of one query through readQueries
+   */
+  const ReadSection = ({ name, ms }: { name: string; ms: number }) => {
+    const { readQueries } = useScreenQueryContext()
+    const [data] = readQueries([server.versionQuery(name, ms)])
+    useEffect(() => {
+      commits.push(document.body.textContent ?? '')
+    })
+    return <p>{data}</p>
+  }
+
+  /**
+   * Render a user section and a posts section loading at different speeds
+   */
+  const renderScreen = async (atomic?: boolean, read = false) => {
+    const Component = read ? ReadSection : Section
+    render(
+      <Suspense fallback={<div>loading</div>}>
+        <Component name="user" ms={10} />
+        <Component name="posts" ms={40} />
+      </Suspense>,
+      { wrapper: createWrapper(queryClient, { atomic }) },
+    )
+    await screen.findByText('posts v1')
+    server.version = 2
+    commits = []
+  }
+
+  beforeEach(() => {
+    // Suppress console.error including React 18 Suspense warnings
+    suppressConsoleError()
+    // Given: Initialize new QueryClient keeping the data cached while suspended
+    queryClient = createQueryClient()
+    queryClient.setDefaultOptions({ queries: { retry: false } })
+    server = createVersionServer()
+    commits = []
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    // Cleanup after test
+    queryClient.clear()
+  })
+
+  describe('when atomic is enabled', () => {
+    it('should reveal background refetches once every query has settled', async () => {
+      // Given: A loaded atomic screen
+      await renderScreen(true)
+
+      // When: Invalidate the queries outside of the provider
+      await act(() => queryClient.invalidateQueries())
+
+      // Then: Both sections are updated together
+      await screen.findByText('posts v2')
+      expect(screen.getByText('user v2')).toBeDefined()
+      expect(commits).not.toContain('user v2posts v1')
+    })
+
+    it('should reveal read queries refetched in the background together', async () => {
+      // Given: A loaded atomic screen reading its queries through readQueries
+      await renderScreen(true, true)
+
+      // When: Invalidate the queries outside of the provider
+      await act(() => queryClient.invalidateQueries())
+
+      // Then: Both sections are updated together
+      await screen.findByText('posts v2')
+      expect(screen.getByText('user v2')).toBeDefined()
+      expect(commits).not.toContain('user v2posts v1')
+    })
+
+    it('should hold back setQueryData while another query is fetching', async () => {
+      // Given: A loaded atomic screen whose posts are refetching
+      await renderScreen(true)
+      act(() => {
+        void queryClient.refetchQueries({ queryKey: ['posts'] })
+      })
+
+      // When: Set the user data directly
+      act(() => {
+        queryClient.setQueryData(['user'], 'user v3')
+      })
+
+      // Then: The user data is revealed with the refetched posts
+      await act(() => delay(15))
+      expect(screen.getByText('user v1')).toBeDefined()
+      await screen.findByText('posts v2')
+      expect(screen.getByText('user v3')).toBeDefined()
+    })
+
+    it('should reveal setQueryData right away when nothing is fetching', async () => {
+      // Given: A loaded atomic screen
+      await renderScreen(true)
+
+      // When: Set the user data directly
+      act(() => {
+        queryClient.setQueryData(['user'], 'user v3')
+      })
+
+      // Then: The user data is revealed
+      await screen.findByText('user v3')
+    })
+  })
+
+  describe('when atomic is disabled', () => {
+    it('should reveal each background refetch as it settles', async () => {
+      // Given: A loaded screen with the default options
+      await renderScreen()
+
+      // When: Invalidate the queries outside of the provider
+      await act(() => queryClient.invalidateQueries())
+
+      // Then: The user is shown before the posts are refetched
+      expect(commits).toContain('user v2posts v1')
+    })
+  })
+})
@@ -1,4 +1,9 @@
-import { type QueryClient, useQuery } from '@tanstack/react-query'
+import {
+  type QueryClient,
+  QueryObserver,
+  useQueries,
+  useQuery,
+} from '@tanstack/react-query'
 import { act, renderHook, waitFor } from '@testing-library/react'
 import {
   createQueryClient,
@@ -221,4 +226,198 @@ describe('ScreenQueryProvider.clearCache', () => {
       expect(result.current.context.clearCache).toBeDefined()
     })
   })
+
+  describe('when filters are specified', () => {
+    /**
+     * Render a screen registering the given queries once all succeed
+     */
+    async function renderScreen(
+      queryOptionsList: ReturnType<typeof createQueryOptions<string>>[],
+    ) {
+      const TestComponent = () => {
+        const queries = useQueries({ queries: queryOptionsList })
+        const context = useTestScreenQueryContext()
+        const isSuccess = queries.every((query) => query.isSuccess)
+
+        if (isSuccess) {
+          context.getQueryResult(
+            queries.map((query, index) => ({
+              ...query,
+              ...queryOptionsList[index],
+            })),
+          )
+        }
+
+        return { context, isSuccess }
+      }
+
+      const wrapper = createWrapper(queryClient)
+      const { result } = renderHook(() => TestComponent(), { wrapper })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      return result
+    }
+
+    it('should only clear queries matching one of the query keys', async () => {
+      // Given: A todo query and a user query
+      const result = await renderScreen([
+        createQueryOptions(['todos', '1'], 'todo'),
+        createQueryOptions(['user'], 'user'),
+      ])
+      const resetSpy = vi.spyOn(queryClient, 'resetQueries')
+
+      // When: Clear queries whose key starts with 'todos'
+      await act(async () => {
+        await result.current.context.clearCache('all', {
+          queryKeys: [['todos']],
+        })
+      })
+
+      // Then: Only the todo query is reset
+      expect(resetSpy).toHaveBeenCalledTimes(1)
+      expect(resetSpy).toHaveBeenCalledWith({
+        queryKey: ['todos', '1'],
+        exact: true,
+      })
+    })
+
+    it('should only clear queries accepted by the predicate', async () => {
+      // Given: Two registered queries
+      const result = await renderScreen([
+        createQueryOptions(['profile'], 'profile'),
+        createQueryOptions(['settings'], 'settings'),
+      ])
+      const resetSpy = vi.spyOn(queryClient, 'resetQueries')
+
+      // When: Clear with a predicate over the cached Query
+      await act(async () => {
+        await result.current.context.clearCache('all', {
+          predicate: (query) => query.queryKey[0] === 'profile',
+        })
+      })
+
+      // Then: Only the accepted query is reset
+      expect(resetSpy).toHaveBeenCalledTimes(1)
+      expect(resetSpy).toHaveBeenCalledWith({
+        queryKey: ['profile'],
+        exact: true,
+      })
+    })
+
+    it('should only destroy observers of the cleared queries', async () => {
+      // Given: Two registered queries
+      const result = await renderScreen([
+        createQueryOptions(['widget-a'], 'a'),
+        createQueryOptions(['widget-b'], 'b'),
+      ])
+      const destroySpy = vi.spyOn(QueryObserver.prototype, 'destroy')
+
+      // When: Clear only one of them
+      await act(async () => {
+        await result.current.context.clearCache('all', {
+          queryKeys: [['widget-a']],
+        })
+      })
+
+      // Then: Only the observer of the cleared query is destroyed
+      const destroyedKeys = destroySpy.mock.contexts.map(
+        (observer) => (observer as QueryObserver).getCurrentQuery().queryKey,
+      )
+      expect(destroyedKeys).toEqual([['widget-a']])
+    })
+  })
+
+  describe('when mode is specified', () => {
+    it('should remove the queries and fetch them again', async () => {
+      // Given: A registered query counting its fetches
+      let fetchCount = 0
+      const queryOptions = createQueryOptions(['remove-mode'], 'data')
+      queryOptions.queryFn = async () => {
+        fetchCount++
+        return `data-${fetchCount}`
+      }
+
+      const TestComponent = () => {
+        const query = useQuery(queryOptions)
+        const context = useTestScreenQueryContext()
+        try {
+          const [data] = context.getQueryResult([{ ...query, ...queryOptions }])
+          return { context, data }
+        } catch {
+          return { context, data: undefined }
+        }
+      }
+
+      const wrapper = createWrapper(queryClient)
+      const { result } = renderHook(() => TestComponent(), { wrapper })
+
+      await waitFor(() => {
+        expect(result.current.data).toBe('data-1')
+      })
+      const removeSpy = vi.spyOn(queryClient, 'removeQueries')
+
+      // When: Clear with remove mode
+      await act(async () => {
+        await result.current.context.clearCache('all', { mode: 'remove' })
+      })
+
+      // Then: The query is removed and fetched again
+      expect(removeSpy).toHaveBeenCalledWith({
+        queryKey: ['remove-mode'],
+        exact: true,
+      })
+      await waitFor(() => {
+        expect(result.current.data).toBe('data-2')
+      })
+    })
+
+    it('should invalidate the queries without destroying observers', async () => {
+      // Given: A registered query counting its fetches
+      let fetchCount = 0
+      const queryOptions = createQueryOptions(['invalidate-mode'], 'data', {
+        staleTime: Infinity,
+      })
+      queryOptions.queryFn = async () => {
+        fetchCount++
+        return `data-${fetchCount}`
+      }
+      const renderedData: unknown[] = []
+
+      const TestComponent = () => {
+        const query = useQuery(queryOptions)
+        const context = useTestScreenQueryContext()
+        try {
+          const [data] = context.getQueryResult([{ ...query, ...queryOptions }])
+          renderedData.push(data)
+        } catch {
+          renderedData.push('suspended')
+        }
+        return context
+      }
+
+      const wrapper = createWrapper(queryClient)
+      const { result } = renderHook(() => TestComponent(), { wrapper })
+
+      await waitFor(() => {
+        expect(renderedData).toContain('data-1')
+      })
+      renderedData.length = 0
+      const destroySpy = vi.spyOn(QueryObserver.prototype, 'destroy')
+
+      // When: Clear with invalidate mode
+      await act(async () => {
+        await result.current.clearCache('all', { mode: 'invalidate' })
+      })
+
+      // Then: The query is refetched while its data stays visible
+      await waitFor(() => {
+        expect(renderedData.at(-1)).toBe('data-2')
+      })
+      expect(renderedData).not.toContain('suspended')
+      expect(destroySpy).not.toHaveBeenCalled()
+    })
+  })
 })
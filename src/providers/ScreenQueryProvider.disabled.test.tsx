@@ -0,0 +1,115 @@
+import {
+  type QueryClient,
+  queryOptions,
+  skipToken,
+  useQuery,
+} from '@tanstack/react-query'
+import { render, screen } from '@testing-library/react'
+import { Suspense } from 'react'
+import { useScreenQueryContext } from '~/hooks/useScreenQueryContext'
+import {
+  createQueryClient,
+  createQueryOptions,
+  createWrapper,
+  suppressConsoleError,
+} from '~/test-utils/screen-query'
+
+describe('ScreenQueryProvider.disabled', () => {
+  let queryClient: QueryClient
+
+  /**
+   * Screen loading a user and the details of the user only when enabled
+   */
+  const Screen = ({ enabled }: { enabled: boolean }) => {
+    const userOptions = createQueryOptions(['user'], 'user')
+    const detailOptions = {
+      ...createQueryOptions(['detail'], 'detail', { delay: 10 }),
+      enabled,
+    }
+    const user = useQuery(userOptions)
+    const detail = useQuery(detailOptions)
+    const { getQueryResult } = useScreenQueryContext()
+    const [userData, detailData] = getQueryResult([
+      { ...user, ...userOptions },
+      { ...detail, ...detailOptions },
+    ])
+    expectTypeOf(detailData).toEqualTypeOf<string | undefined>()
+    return <div>{`${userData}: ${detailData ?? 'no detail'}`}</div>
+  }
+
+  /**
+   * Screen loading a user and a query skipped with skipToken
+   */
+  const SkippedScreen = () => {
+    const userOptions = createQueryOptions(['user'], 'user')
+    const skippedOptions = queryOptions({
+      queryKey: ['skipped'],
+      queryFn: skipToken,
+    })
+    const user = useQuery(userOptions)
+    const skipped = useQuery(skippedOptions)
+    const { getQueryResult } = useScreenQueryContext()
+    const [userData, skippedData] = getQueryResult([
+      { ...user, ...userOptions },
+      { ...skipped, ...skippedOptions },
+    ])
+    return <div>{`${userData}: ${skippedData ?? 'skipped'}`}</div>
+  }
+
+  /**
+   * Render the children inside Suspense
+   */
+  const renderScreen = (children: React.ReactNode) =>
+    render(<Suspense fallback={<div>loading</div>}>{children}</Suspense>, {
+      wrapper: createWrapper(queryClient),
+    })
+
+  beforeEach(() => {
+    // Suppress console.error including React 18 Suspense warnings
+    suppressConsoleError()
+    // Given: Initialize new QueryClient
+    queryClient = createQueryClient()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    // Cleanup after test
+    queryClient.clear()
+  })
+
+  describe('when a query is disabled with enabled: false', () => {
+    it('should return undefined for it instead of suspending forever', async () => {
+      // Given/When: Render the screen with the detail query disabled
+      renderScreen(<Screen enabled={false} />)
+
+      // Then: The screen is rendered without the detail
+      await screen.findByText('user: no detail')
+    })
+
+    it('should wait for the query once it is enabled', async () => {
+      // Given: The screen rendered with the detail query disabled
+      const { rerender } = renderScreen(<Screen enabled={false} />)
+      await screen.findByText('user: no detail')
+
+      // When: Enable the detail query
+      rerender(
+        <Suspense fallback={<div>loading</div>}>
+          <Screen enabled />
+        </Suspense>,
+      )
+
+      // Then: The detail is shown once fetched
+      await screen.findByText('user: detail')
+    })
+  })
+
+  describe('when a query is skipped with skipToken', () => {
+    it('should return undefined for it instead of suspending forever', async () => {
+      // Given/When: Render the screen with a skipped query
+      renderScreen(<SkippedScreen />)
+
+      // Then: The screen is rendered without the skipped data
+      await screen.findByText('user: skipped')
+    })
+  })
+})
@@ -0,0 +1,97 @@
+import { useQueries } from '@tanstack/react-query'
+import { screen, waitFor } from '@testing-library/react'
+import { useScreenQueryContext } from '~/hooks/useScreenQueryContext'
+import {
+  createQueryOptions,
+  setupScreenQueryTest,
+} from '~/test-utils/screen-query'
+
+describe('ScreenQueryProvider.getQueryResults', () => {
+  const screenTest = setupScreenQueryTest()
+  let renderedResults:
+    | { data: string; isFetching: boolean; isSuccess: boolean }[]
+    | undefined
+
+  /**
+   * Screen rendering the full results of its queries
+   */
+  const Screen = ({
+    queryOptionsList,
+  }: {
+    queryOptionsList: ReturnType<typeof createQueryOptions<string>>[]
+  }) => {
+    const queries = useQueries({ queries: queryOptionsList })
+    const { getQueryResults } = useScreenQueryContext()
+    const results = getQueryResults(
+      queries.map((query, index) => ({
+        ...query,
+        ...queryOptionsList[index],
+      })),
+    )
+    expectTypeOf(results[0].data).toEqualTypeOf<string>()
+    renderedResults = results
+    return <div>{results.map((result) => result.data).join(',')}</div>
+  }
+
+  /**
+   * Render the screen inside Suspense
+   */
+  const renderScreen = (
+    queryOptionsList: ReturnType<typeof createQueryOptions<string>>[],
+  ) => screenTest.renderScreen(() => Screen({ queryOptionsList }))
+
+  beforeEach(() => {
+    renderedResults = undefined
+  })
+
+  describe('when all queries succeed', () => {
+    it('should return the full query results', async () => {
+      // Given/When: Render the screen with succeeding queries
+      renderScreen([
+        createQueryOptions(['user'], 'user', { delay: 10 }),
+        createQueryOptions(['posts'], 'posts'),
+      ])
+
+      // Then: The results keep their query state next to the data
+      await screen.findByText('user,posts')
+      await waitFor(() => {
+        expect(renderedResults).toEqual([
+          expect.objectContaining({
+            data: 'user',
+            isSuccess: true,
+            isFetching: false,
+            queryKey: ['user'],
+          }),
+          expect.objectContaining({
+            data: 'posts',
+            isSuccess: true,
+            isFetching: false,
+            queryKey: ['posts'],
+          }),
+        ])
+      })
+    })
+  })
+
+  describe('when a query fails', () => {
+    it('should throw ScreenQueryError like getQueryResult', async () => {
+      // Given: A failing query
+      const postsError = new Error('Posts failed')
+
+      // When: Render the screen
+      renderScreen([
+        createQueryOptions(['user'], 'user'),
+        createQueryOptions<string>(['posts'], undefined, {
+          shouldReject: true,
+          rejectWith: postsError,
+        }),
+      ])
+      await screen.findByText('failed')
+
+      // Then: The failure is thrown instead of returned
+      expect(screenTest.queryError?.failures).toEqual([
+        { queryKey: ['posts'], error: postsError, failureCount: 1 },
+      ])
+    })
+  })
+})
@@ -0,0 +1,258 @@
+import { type QueryClient, useQuery } from '@tanstack/react-query'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import {
+  createQueryClient,
+  createQueryOptions,
+  createWrapper,
+  suppressConsoleError,
+  useTestScreenQueryContext,
+} from '~/test-utils/screen-query'
+
+describe('ScreenQueryProvider.groups', () => {
+  let queryClient: QueryClient
+
+  beforeEach(() => {
+    // Suppress console.error including React 18 Suspense warnings
+    suppressConsoleError()
+    // Given: Initialize new QueryClient
+    queryClient = createQueryClient()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    // Cleanup after test
+    queryClient.clear()
+  })
+
+  describe('when queries are registered in different groups', () => {
+    it('should not wait for pending queries in other groups', async () => {
+      // Given: A permanently pending query in the default group
+      // and a successful query in the 'header' group
+      const pendingOptions = createQueryOptions(['group-pending'], null, {
+        isPending: true,
+      })
+      const headerOptions = createQueryOptions(['group-header'], {
+        title: 'Header',
+      })
+
+      const TestComponent = () => {
+        const pendingQuery = useQuery(pendingOptions)
+        const headerQuery = useQuery(headerOptions)
+        const context = useTestScreenQueryContext()
+
+        // Register the pending query in the default group
+        try {
+          context.getQueryResult([{ ...pendingQuery, ...pendingOptions }])
+        } catch {
+          // Expect Promise to be thrown
+        }
+
+        // When: Get the header query from its own group
+        try {
+          const [header] = context.getQueryResult(
+            [{ ...headerQuery, ...headerOptions }],
+            { group: 'header' },
+          )
+          return { status: 'success', header }
+        } catch (error) {
+          if (error instanceof Promise) {
+            void error.then(() => {})
+            return { status: 'loading' }
+          }
+          return { status: 'error' }
+        }
+      }
+
+      const wrapper = createWrapper(queryClient)
+      const { result } = renderHook(() => TestComponent(), { wrapper })
+
+      // Then: The header group resolves independently of the default group
+      await waitFor(() => {
+        expect(result.current.status).toBe('success')
+      })
+      expect(result.current.header).toEqual({ title: 'Header' })
+    })
+
+    it('should wait for pending queries in the same group', async () => {
+      // Given: A permanently pending query registered in the 'side' group
+      const pendingOptions = createQueryOptions(['side-pending'], null, {
+        isPending: true,
+      })
+      const sideOptions = createQueryOptions(['side-success'], {
+        data: 'side',
+      })
+
+      const TestComponent = () => {
+        const pendingQuery = useQuery(pendingOptions)
+        const sideQuery = useQuery(sideOptions)
+        const context = useTestScreenQueryContext()
+
+        try {
+          context.getQueryResult([{ ...pendingQuery, ...pendingOptions }], {
+            group: 'side',
+          })
+        } catch {
+          // Expect Promise to be thrown
+        }
+
+        // When: Get another query in the same group
+        try {
+          context.getQueryResult([{ ...sideQuery, ...sideOptions }], {
+            group: 'side',
+          })
+          return { status: 'success', isSuccess: sideQuery.isSuccess }
+        } catch (error) {
+          if (error instanceof Promise) {
+            void error.then(() => {})
+            return { status: 'loading', isSuccess: sideQuery.isSuccess }
+          }
+          return { status: 'error', isSuccess: sideQuery.isSuccess }
+        }
+      }
+
+      const wrapper = createWrapper(queryClient)
+      const { result } = renderHook(() => TestComponent(), { wrapper })
+
+      // Then: The query keeps suspending because its group is still loading
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+      expect(result.current.status).toBe('loading')
+    })
+  })
+
+  describe('refetchQueries', () => {
+    it('should only refetch queries in the specified group', async () => {
+      // Given: Queries in the 'header' group and the default group
+      let headerFetchCount = 0
+      let mainFetchCount = 0
+      const headerOptions = createQueryOptions(['refetch-header'], 'header')
+      headerOptions.queryFn = async () => {
+        headerFetchCount++
+        return `header-${headerFetchCount}`
+      }
+      const mainOptions = createQueryOptions(['refetch-main'], 'main')
+      mainOptions.queryFn = async () => {
+        mainFetchCount++
+        return `main-${mainFetchCount}`
+      }
+
+      const TestComponent = () => {
+        const headerQuery = useQuery(headerOptions)
+        const mainQuery = useQuery(mainOptions)
+        const context = useTestScreenQueryContext()
+
+        if (headerQuery.isSuccess && mainQuery.isSuccess) {
+          context.getQueryResult([{ ...headerQuery, ...headerOptions }], {
+            group: 'header',
+          })
+          context.getQueryResult([{ ...mainQuery, ...mainOptions }])
+        }
+
+        return { context, headerQuery, mainQuery }
+      }
+
+      const wrapper = createWrapper(queryClient)
+      const { result } = renderHook(() => TestComponent(), { wrapper })
+
+      await waitFor(() => {
+        expect(result.current.headerQuery.isSuccess).toBe(true)
+        expect(result.current.mainQuery.isSuccess).toBe(true)
+      })
+
+      // When: Refetch only the header group
+      await act(async () => {
+        await result.current.context.refetchQueries('header')
+      })
+
+      // Then: Only the header query is refetched
+      expect(headerFetchCount).toBe(2)
+      expect(mainFetchCount).toBe(1)
+    })
+
+    it('should refetch nothing for an unknown group', async () => {
+      // Given: A query registered in the default group
+      let fetchCount = 0
+      const queryOptions = createQueryOptions(['refetch-unknown'], 'data')
+      queryOptions.queryFn = async () => {
+        fetchCount++
+        return `data-${fetchCount}`
+      }
+
+      const TestComponent = () => {
+        const query = useQuery(queryOptions)
+        const context = useTestScreenQueryContext()
+
+        if (query.isSuccess) {
+          context.getQueryResult([{ ...query, ...queryOptions }])
+        }
+
+        return { context, query }
+      }
+
+      const wrapper = createWrapper(queryClient)
+      const { result } = renderHook(() => TestComponent(), { wrapper })
+
+      await waitFor(() => {
+        expect(result.current.query.isSuccess).toBe(true)
+      })
+
+      // When: Refetch a group that has no queries
+      await act(async () => {
+        await result.current.context.refetchQueries('unknown')
+      })
+
+      // Then: No query is refetched
+      expect(fetchCount).toBe(1)
+    })
+  })
+
+  describe('clearCache', () => {
+    it('should only clear queries in the specified group', async () => {
+      // Given: Queries in the 'panel' group and the default group
+      const panelOptions = createQueryOptions(['clear-panel'], 'panel', {
+        staleTime: Infinity,
+      })
+      const mainOptions = createQueryOptions(['clear-main'], 'main', {
+        staleTime: Infinity,
+      })
+
+      const TestComponent = () => {
+        const panelQuery = useQuery(panelOptions)
+        const mainQuery = useQuery(mainOptions)
+        const context = useTestScreenQueryContext()
+
+        if (panelQuery.isSuccess && mainQuery.isSuccess) {
+          context.getQueryResult([{ ...panelQuery, ...panelOptions }], {
+            group: 'panel',
+          })
+          context.getQueryResult([{ ...mainQuery, ...mainOptions }])
+        }
+
+        return { context, panelQuery, mainQuery }
+      }
+
+      const wrapper = createWrapper(queryClient)
+      const { result } = renderHook(() => TestComponent(), { wrapper })
+
+      await waitFor(() => {
+        expect(result.current.panelQuery.isSuccess).toBe(true)
+        expect(result.current.mainQuery.isSuccess).toBe(true)
+      })
+
+      const resetSpy = vi.spyOn(queryClient, 'resetQueries')
+
+      // When: Clear all queries in the 'panel' group
+      await act(async () => {
+        await result.current.context.clearCache('all', { group: 'panel' })
+      })
+
+      // Then: Only the panel query is reset
+      expect(resetSpy).toHaveBeenCalledTimes(1)
+      expect(resetSpy).toHaveBeenCalledWith({
+        queryKey: ['clear-panel'],
+        exact: true,
+      })
+    })
+  })
+})
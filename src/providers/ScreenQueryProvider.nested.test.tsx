@@ -0,0 +1,242 @@
+import type { QueryClient } from '@tanstack/react-query'
+import { act, render, renderHook, screen } from '@testing-library/react'
+import { Suspense, useEffect } from 'react'
+import type { ScreenQueryError } from '~/errors/ScreenQueryError'
+import { useScreenQueryContext } from '~/hooks/useScreenQueryContext'
+import {
+  createQueryClient,
+  createVersionServer,
+  createWrapper,
+  suppressConsoleError,
+  type VersionServer,
+} from '~/test-utils/screen-query'
+import {
+  ScreenQueryProvider,
+  type ScreenQueryProviderProps,
+} from './ScreenQueryProvider'
+
+type ContextValue = ReturnType<typeof useScreenQueryContext>
+
+describe('ScreenQueryProvider.nested', () => {
+  let queryClient: QueryClient
+  let server: VersionServer
+  let commits: string[]
+  let contexts: Record<string, ContextValue>
+
+  /**
+   * Section rendering the data of one query, recording the screen after each commit
+   */
+  const Section = ({
+    name,
+    ms = 10,
+    target,
+  }: {
+    name: string
+    ms?: number
+    target?: string
+  }) => {
+    const context = useScreenQueryContext(target)
+    contexts[name] = context
+    const [data] = context.readQueries([server.versionQuery(name, ms)])
+    useEffect(() => {
+      commits.push(document.body.textContent ?? '')
+    })
+    return <p>{data}</p>
+  }
+
+  /**
+   * Render a screen with a user section and a nested modal provider
+   */
+  const renderScreen = async (
+    modal: React.ReactNode,
+    modalProps?: Omit<ScreenQueryProviderProps, 'children'>,
+    userMs = 30,
+  ) => {
+    const result = render(
+      <>
+        <Suspense fallback={<div>loading user</div>}>
+          <Section name="user" ms={userMs} />
+        </Suspense>
+        <Suspense fallback={<div>loading modal</div>}>
+          <ScreenQueryProvider {...modalProps}>{modal}</ScreenQueryProvider>
+        </Suspense>
+      </>,
+      { wrapper: createWrapper(queryClient, { name: 'screen' }) },
+    )
+    await screen.findByText('user v1')
+    return result
+  }
+
+  beforeEach(() => {
+    // Suppress console.error including React 18 Suspense warnings
+    suppressConsoleError()
+    // Given: Initialize new QueryClient keeping the data cached while suspended
+    queryClient = createQueryClient()
+    queryClient.setDefaultOptions({ queries: { retry: false } })
+    server = createVersionServer()
+    commits = []
+    contexts = {}
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    // Cleanup after test
+    queryClient.clear()
+  })
+
+  describe('when the parent refetches', () => {
+    it('should refetch the nested provider and reveal both together', async () => {
+      // Given: A screen with a modal loading faster than the screen
+      await renderScreen(<Section name="posts" ms={5} />)
+      await screen.findByText('posts v1')
+      server.version = 2
+      server.fetchedKeys = []
+      commits = []
+
+      // When: Refetch the queries of the parent
+      await act(() => contexts.user.refetchQueries())
+
+      // Then: The modal is refetched too, and revealed with the screen
+      expect(server.fetchedKeys).toEqual(['user', 'posts'])
+      expect(screen.getByText('user v2')).toBeDefined()
+      expect(screen.getByText('posts v2')).toBeDefined()
+      expect(commits).not.toContainEqual(
+        expect.stringMatching(/user v1.*posts v2|user v2.*posts v1/),
+      )
+    })
+
+    it('should report the failures of the nested provider', async () => {
+      // Given: A screen with a modal whose refetch fails
+      await renderScreen(<Section name="posts" />)
+      await screen.findByText('posts v1')
+      server.failingKeys = ['posts']
+
+      // When: Refetch the parent, rejecting on failures
+      let error: unknown
+      await act(() =>
+        contexts.user.refetchQueries({ throwOnError: true }).catch((reason) => {
+          error = reason
+        }),
+      )
+
+      // Then: The failure of the modal is reported
+      expect((error as ScreenQueryError).failures).toEqual([
+        {
+          queryKey: ['posts'],
+          error: new Error('posts failed'),
+          failureCount: 1,
+        },
+      ])
+    })
+
+    it('should not refetch nested providers that unmounted', async () => {
+      // Given: A screen whose modal was closed
+      const { rerender } = await renderScreen(<Section name="posts" />)
+      await screen.findByText('posts v1')
+      rerender(
+        <Suspense fallback={<div>loading user</div>}>
+          <Section name="user" ms={30} />
+        </Suspense>,
+      )
+      server.fetchedKeys = []
+
+      // When: Refetch the queries of the parent
+      await act(() => contexts.user.refetchQueries())
+
+      // Then: Only the parent queries are refetched
+      expect(server.fetchedKeys).toEqual(['user'])
+    })
+  })
+
+  describe('when the nested provider refetches', () => {
+    it('should not refetch the parent', async () => {
+      // Given: A screen with a modal
+      await renderScreen(<Section name="posts" />)
+      await screen.findByText('posts v1')
+      server.fetchedKeys = []
+
+      // When: Refetch the queries of the modal
+      await act(() => contexts.posts.refetchQueries())
+
+      // Then: Only the modal queries are refetched
+      expect(server.fetchedKeys).toEqual(['posts'])
+    })
+  })
+
+  describe('when the parent clears its cache', () => {
+    it('should clear the cache of the nested provider', async () => {
+      // Given: A screen with a modal
+      await renderScreen(<Section name="posts" />)
+      await screen.findByText('posts v1')
+
+      // When: Clear the queries of the parent after a server update
+      server.version = 2
+      server.fetchedKeys = []
+      await act(() => contexts.user.clearCache('all'))
+
+      // Then: The modal queries are reset and loaded again too
+      await screen.findByText('user v2')
+      await screen.findByText('posts v2')
+      expect(server.fetchedKeys.toSorted()).toEqual(['posts', 'user'])
+    })
+  })
+
+  describe('when waitForParent is set', () => {
+    it('should reveal the nested provider after the parent', async () => {
+      // Given/When: A screen with a modal loading faster than the screen,
+      // slower than React throttles Suspense reveals
+      await renderScreen(
+        <Section name="posts" ms={5} />,
+        { waitForParent: true },
+        400,
+      )
+
+      // Then: The modal is never shown before the screen
+      await screen.findByText('posts v1')
+      expect(commits.some((commit) => commit.includes('loading user'))).toBe(
+        false,
+      )
+    })
+
+    it('should reveal the nested provider first without it', async () => {
+      // Given/When: A screen with a modal loading faster than the screen
+      await renderScreen(<Section name="posts" ms={5} />, undefined, 400)
+
+      // Then: The modal was shown while the screen was loading
+      expect(commits[0]).toContain('loading user')
+      expect(commits[0]).toContain('posts v1')
+    })
+  })
+
+  describe('when an ancestor is targeted by name', () => {
+    it('should register the queries in the named provider', async () => {
+      // Given: A modal reading settings from the screen provider
+      await renderScreen(
+        <>
+          <Section name="posts" />
+          <Section name="settings" target="screen" />
+        </>,
+      )
+      await screen.findByText('settings v1')
+      server.fetchedKeys = []
+
+      // When: Refetch the queries of the modal
+      await act(() => contexts.posts.refetchQueries())
+
+      // Then: The settings belong to the screen provider
+      expect(server.fetchedKeys).toEqual(['posts'])
+      expect(contexts.settings.refetchQueries).toBe(
+        contexts.user.refetchQueries,
+      )
+    })
+
+    it('should throw when no ancestor has the name', () => {
+      // When/Then: Target an unknown provider
+      expect(() =>
+        renderHook(() => useScreenQueryContext('unknown'), {
+          wrapper: createWrapper(queryClient),
+        }),
+      ).toThrow('No ScreenQueryProvider named "unknown" found')
+    })
+  })
+})
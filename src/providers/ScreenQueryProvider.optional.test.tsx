@@ -0,0 +1,111 @@
+import { useQuery } from '@tanstack/react-query'
+import { screen, waitFor } from '@testing-library/react'
+import { useScreenQueryContext } from '~/hooks/useScreenQueryContext'
+import type { OptionalQueryResult } from '~/providers/ScreenQueryProvider'
+import {
+  createQueryOptions,
+  setupScreenQueryTest,
+} from '~/test-utils/screen-query'
+
+describe('ScreenQueryProvider.optional', () => {
+  const screenTest = setupScreenQueryTest()
+  let screenResult: [string, OptionalQueryResult<string>] | undefined
+
+  /**
+   * Screen with a required main query and an optional banner query
+   */
+  const Screen = ({
+    mainOptions,
+    bannerOptions,
+  }: {
+    mainOptions: ReturnType<typeof createQueryOptions<string>>
+    bannerOptions: ReturnType<typeof createQueryOptions<string>>
+  }) => {
+    const main = useQuery(mainOptions)
+    const banner = useQuery(bannerOptions)
+    const { getQueryResult } = useScreenQueryContext()
+    const result = getQueryResult([
+      { ...main, ...mainOptions },
+      { ...banner, ...bannerOptions, optional: true },
+    ])
+    expectTypeOf(result).toEqualTypeOf<[string, OptionalQueryResult<string>]>()
+    screenResult = result
+    return <div>rendered</div>
+  }
+
+  /**
+   * Render the screen inside Suspense
+   */
+  const renderScreen = (
+    mainOptions: ReturnType<typeof createQueryOptions<string>>,
+    bannerOptions: ReturnType<typeof createQueryOptions<string>>,
+  ) => screenTest.renderScreen(() => Screen({ mainOptions, bannerOptions }))
+
+  beforeEach(() => {
+    screenResult = undefined
+  })
+
+  describe('when an optional query fails', () => {
+    it('should return its error instead of throwing', async () => {
+      // Given: A succeeding main query and a failing optional banner query
+      const bannerError = new Error('Banner failed')
+
+      // When: Render the screen
+      renderScreen(
+        createQueryOptions(['main'], 'main'),
+        createQueryOptions<string>(['banner'], undefined, {
+          shouldReject: true,
+          rejectWith: bannerError,
+        }),
+      )
+
+      // Then: The banner slot holds the error and the main data is returned
+      await waitFor(() => {
+        expect(screenResult).toEqual([
+          'main',
+          { data: undefined, error: bannerError },
+        ])
+      })
+      expect(screenTest.queryError).toBeUndefined()
+    })
+  })
+
+  describe('when an optional query succeeds', () => {
+    it('should return its data without an error', async () => {
+      // Given/When: Render the screen with succeeding queries
+      renderScreen(
+        createQueryOptions(['main'], 'main'),
+        createQueryOptions(['banner'], 'banner'),
+      )
+
+      // Then: The banner slot holds the data
+      await waitFor(() => {
+        expect(screenResult).toEqual(['main', { data: 'banner' }])
+      })
+    })
+  })
+
+  describe('when a required query fails next to an optional one', () => {
+    it('should throw only the required failure', async () => {
+      // Given: Both the main and the optional banner query fail
+      const mainError = new Error('Main failed')
+
+      // When: Render the screen
+      renderScreen(
+        createQueryOptions<string>(['main'], undefined, {
+          shouldReject: true,
+          rejectWith: mainError,
+        }),
+        createQueryOptions<string>(['banner'], undefined, {
+          shouldReject: true,
+        }),
+      )
+      await screen.findByText('failed')
+
+      // Then: Only the required query is reported
+      expect(screenTest.queryError?.failures).toEqual([
+        { queryKey: ['main'], error: mainError, failureCount: 1 },
+      ])
+    })
+  })
+})
@@ -0,0 +1,114 @@
+import { type QueryClient, useQuery } from '@tanstack/react-query'
+import { render, screen } from '@testing-library/react'
+import { Suspense } from 'react'
+import { useScreenQueryContext } from '~/hooks/useScreenQueryContext'
+import type {
+  GetQueryResultOptions,
+  ScreenQueryProviderProps,
+} from '~/providers/ScreenQueryProvider'
+import {
+  createQueryClient,
+  createQueryOptions,
+  createWrapper,
+  suppressConsoleError,
+} from '~/test-utils/screen-query'
+
+/**
+ * Screen rendering the data of a query resolving after a delay
+ */
+const Screen = ({
+  fetchDelay,
+  options,
+}: {
+  fetchDelay: number
+  options?: GetQueryResultOptions
+}) => {
+  const queryOptions = createQueryOptions(['timing'], 'content', {
+    delay: fetchDelay,
+  })
+  const query = useQuery(queryOptions)
+  const { getQueryResult } = useScreenQueryContext()
+  const [data] = getQueryResult([{ ...query, ...queryOptions }], options)
+  return <div>{data}</div>
+}
+
+describe('ScreenQueryProvider.pendingTiming', () => {
+  let queryClient: QueryClient
+
+  /**
+   * Render the screen and measure how long until its content is shown
+   * @returns Milliseconds until the content is shown
+   */
+  const measureContentTime = async (
+    fetchDelay: number,
+    providerProps?: Omit<ScreenQueryProviderProps, 'children'>,
+    options?: GetQueryResultOptions,
+  ) => {
+    const startedAt = Date.now()
+    render(
+      <Suspense fallback={<div>loading</div>}>
+        <Screen fetchDelay={fetchDelay} options={options} />
+      </Suspense>,
+      { wrapper: createWrapper(queryClient, providerProps) },
+    )
+    await screen.findByText('content', undefined, { timeout: 3000 })
+    return Date.now() - startedAt
+  }
+
+  beforeEach(() => {
+    // Suppress console.error including React 18 Suspense warnings
+    suppressConsoleError()
+    // Given: Initialize new QueryClient
+    queryClient = createQueryClient()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    // Cleanup after test
+    queryClient.clear()
+  })
+
+  describe('when minPendingMs is set', () => {
+    it('should keep the fallback for the minimum time', async () => {
+      // Given/When: A fast query with a minimum pending time on the provider
+      const elapsed = await measureContentTime(5, { minPendingMs: 150 })
+
+      // Then: The content is not shown before the minimum time
+      expect(elapsed).toBeGreaterThanOrEqual(140)
+    })
+
+    it('should prefer the minimum time passed to getQueryResult', async () => {
+      // Given/When: A fast query with a per-call minimum pending time
+      const elapsed = await measureContentTime(5, undefined, {
+        minPendingMs: 150,
+      })
+
+      // Then: The per-call minimum time is used
+      expect(elapsed).toBeGreaterThanOrEqual(140)
+    })
+  })
+
+  describe('when pendingDelayMs is set', () => {
+    it('should resolve immediately when queries settle before the delay', async () => {
+      // Given/When: A fast query with a long delay and minimum pending time
+      const elapsed = await measureContentTime(5, {
+        pendingDelayMs: 500,
+        minPendingMs: 2000,
+      })
+
+      // Then: The minimum pending time is not applied
+      expect(elapsed).toBeLessThan(500)
+    })
+
+    it('should keep the fallback for the minimum time after the delay', async () => {
+      // Given/When: A query settling after the delay
+      const elapsed = await measureContentTime(60, {
+        pendingDelayMs: 20,
+        minPendingMs: 150,
+      })
+
+      // Then: The content is shown no earlier than the delay plus minimum time
+      expect(elapsed).toBeGreaterThanOrEqual(160)
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import { useQueries } from '@tanstack/react-query'
+import { screen } from '@testing-library/react'
+import { useScreenQueryContext } from '~/hooks/useScreenQueryContext'
+import {
+  createQueryOptions,
+  setupScreenQueryTest,
+} from '~/test-utils/screen-query'
+
+describe('ScreenQueryProvider.queryError', () => {
+  const screenTest = setupScreenQueryTest()
+
+  /**
+   * Screen rendering the data of its queries
+   */
+  const Screen = ({
+    queryOptionsList,
+  }: {
+    queryOptionsList: ReturnType<typeof createQueryOptions<string>>[]
+  }) => {
+    const results = useQueries({ queries: queryOptionsList })
+    const { getQueryResult } = useScreenQueryContext()
+    const data = getQueryResult(
+      results.map((result, index) => ({
+        ...result,
+        ...queryOptionsList[index],
+      })),
+    )
+    return <div>{data.join(',')}</div>
+  }
+
+  /**
+   * Render the screen inside Suspense
+   */
+  const renderScreen = (
+    queryOptionsList: ReturnType<typeof createQueryOptions<string>>[],
+  ) => screenTest.renderScreen(() => Screen({ queryOptionsList }))
+
+  describe('when several queries fail', () => {
+    it('should throw ScreenQueryError with every failure', async () => {
+      // Given: Two failing queries and one succeeding query
+      const usersError = new Error('Users failed')
+      const postsError = new Error('Posts failed')
+
+      // When: Render the screen
+      renderScreen([
+        createQueryOptions<string>(['users'], undefined, {
+          shouldReject: true,
+          rejectWith: usersError,
+        }),
+        createQueryOptions(['profile'], 'profile'),
+        createQueryOptions<string>(['posts'], undefined, {
+          shouldReject: true,
+          rejectWith: postsError,
+        }),
+      ])
+      await screen.findByText('failed')
+
+      // Then: Every failure is reported in the order of the queries
+      expect(screenTest.queryError?.failures).toEqual([
+        { queryKey: ['users'], error: usersError, failureCount: 1 },
+        { queryKey: ['posts'], error: postsError, failureCount: 1 },
+      ])
+      expect(screenTest.queryError?.message).toBe(
+        'Queries failed: ["users"] (Users failed), ["posts"] (Posts failed)',
+      )
+    })
+
+    it('should keep the original errors reachable', async () => {
+      // Given: Two failing queries
+      const usersError = new Error('Users failed')
+      const postsError = new Error('Posts failed')
+
+      // When: Render the screen
+      renderScreen([
+        createQueryOptions<string>(['users'], undefined, {
+          shouldReject: true,
+          rejectWith: usersError,
+        }),
+        createQueryOptions<string>(['posts'], undefined, {
+          shouldReject: true,
+          rejectWith: postsError,
+        }),
+      ])
+      await screen.findByText('failed')
+
+      // Then: The original errors are the aggregated errors, the first one the cause
+      expect(screenTest.queryError).toBeInstanceOf(AggregateError)
+      expect(screenTest.queryError?.errors).toEqual([usersError, postsError])
+      expect(screenTest.queryError?.cause).toBe(usersError)
+    })
+  })
+
+  describe('when no query fails', () => {
+    it('should return the data', async () => {
+      // Given/When: Render the screen with succeeding queries
+      renderScreen([
+        createQueryOptions(['users'], 'users'),
+        createQueryOptions(['posts'], 'posts'),
+      ])
+
+      // Then: The data is rendered without an error
+      await screen.findByText('users,posts')
+      expect(screenTest.queryError).toBeUndefined()
+    })
+  })
+})
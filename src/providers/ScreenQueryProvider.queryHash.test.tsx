@@ -0,0 +1,200 @@
+import { QueryClient, type QueryKey, useQuery } from '@tanstack/react-query'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { useQueryKey } from '~/hooks/useQueryKey'
+import {
+  createQueryClient,
+  createWrapper,
+  suppressConsoleError,
+  useTestScreenQueryContext,
+} from '~/test-utils/screen-query'
+
+/**
+ * Hash only the first element of a query key
+ */
+function hashFirstElement(queryKey: QueryKey) {
+  return JSON.stringify(queryKey[0])
+}
+
+describe('ScreenQueryProvider.queryHash', () => {
+  let queryClient: QueryClient
+
+  beforeEach(() => {
+    // Suppress console.error including React 18 Suspense warnings
+    suppressConsoleError()
+    // Given: Initialize new QueryClient
+    queryClient = createQueryClient()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    // Cleanup after test
+    queryClient.clear()
+  })
+
+  describe('when keys differ only in object key order', () => {
+    it('should register them as the same query', async () => {
+      // Given: The same query referenced with differently ordered object keys
+      const firstKey = ['user', { a: 1, b: 2 }]
+      const secondKey = ['user', { b: 2, a: 1 }]
+      const queryFn = async () => 'user'
+
+      const TestComponent = () => {
+        const first = useQuery({ queryKey: firstKey, queryFn })
+        const second = useQuery({ queryKey: secondKey, queryFn })
+        const context = useTestScreenQueryContext()
+
+        if (first.isSuccess && second.isSuccess) {
+          context.getQueryResult([
+            { ...first, queryKey: firstKey },
+            { ...second, queryKey: secondKey },
+          ])
+        }
+
+        return { context, isSuccess: first.isSuccess && second.isSuccess }
+      }
+
+      const wrapper = createWrapper(queryClient)
+      const { result } = renderHook(() => TestComponent(), { wrapper })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+      const refetchSpy = vi.spyOn(queryClient, 'refetchQueries')
+
+      // When: Refetch all queries
+      await act(async () => {
+        await result.current.context.refetchQueries()
+      })
+
+      // Then: The cached query is refetched once
+      expect(refetchSpy).toHaveBeenCalledTimes(1)
+    })
+
+    it('should share the Promise of the same query set', () => {
+      // Given: A permanently pending query referenced with both key orders
+      const firstKey = ['pending-user', { a: 1, b: 2 }]
+      const secondKey = ['pending-user', { b: 2, a: 1 }]
+      const queryFn = () => new Promise<never>(() => {})
+      const thrownPromises: unknown[] = []
+
+      const TestComponent = () => {
+        const first = useQuery({ queryKey: firstKey, queryFn })
+        const second = useQuery({ queryKey: secondKey, queryFn })
+        const context = useTestScreenQueryContext()
+
+        // When: Get results for each key order
+        for (const [query, queryKey] of [
+          [first, firstKey],
+          [second, secondKey],
+        ] as const) {
+          try {
+            context.getQueryResult([{ ...query, queryKey }])
+          } catch (error) {
+            thrownPromises.push(error)
+          }
+        }
+
+        return context
+      }
+
+      const wrapper = createWrapper(queryClient)
+      renderHook(() => TestComponent(), { wrapper })
+
+      // Then: Both calls throw the same Promise
+      expect(thrownPromises[0]).toBeInstanceOf(Promise)
+      expect(thrownPromises[1]).toBe(thrownPromises[0])
+    })
+  })
+
+  describe('when a custom queryKeyHashFn is configured', () => {
+    it('should hash keys with the QueryClient default', async () => {
+      // Given: A QueryClient hashing only the first element of a key
+      queryClient = new QueryClient({
+        defaultOptions: {
+          queries: {
+            retry: false,
+            gcTime: 0,
+            queryKeyHashFn: hashFirstElement,
+          },
+        },
+      })
+      const firstKey = ['item', '1']
+      const secondKey = ['item', '2']
+      const queryFn = async () => 'item'
+
+      const TestComponent = () => {
+        const first = useQuery({ queryKey: firstKey, queryFn })
+        const second = useQuery({ queryKey: secondKey, queryFn })
+        const context = useTestScreenQueryContext()
+
+        if (first.isSuccess && second.isSuccess) {
+          context.getQueryResult([
+            { ...first, queryKey: firstKey },
+            { ...second, queryKey: secondKey },
+          ])
+        }
+
+        return { context, isSuccess: first.isSuccess && second.isSuccess }
+      }
+
+      const wrapper = createWrapper(queryClient)
+      const { result } = renderHook(() => TestComponent(), { wrapper })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+      const refetchSpy = vi.spyOn(queryClient, 'refetchQueries')
+
+      // When: Refetch all queries
+      await act(async () => {
+        await result.current.context.refetchQueries()
+      })
+
+      // Then: Both keys are registered as the single cached query
+      expect(queryClient.getQueryCache().getAll()).toHaveLength(1)
+      expect(refetchSpy).toHaveBeenCalledTimes(1)
+    })
+
+    it('should hash keys with the per-query function', async () => {
+      // Given: Queries with a per-query queryKeyHashFn through useQueryKey
+      const queryFn = async () => 'item'
+
+      const TestComponent = () => {
+        const first = useQueryKey({
+          queryKey: ['per-query', '1'],
+          queryFn,
+          queryKeyHashFn: hashFirstElement,
+        })
+        const second = useQueryKey({
+          queryKey: ['per-query', '2'],
+          queryFn,
+          queryKeyHashFn: hashFirstElement,
+        })
+        const context = useTestScreenQueryContext()
+
+        if (first.isSuccess && second.isSuccess) {
+          context.getQueryResult([first, second])
+        }
+
+        return { context, isSuccess: first.isSuccess && second.isSuccess }
+      }
+
+      const wrapper = createWrapper(queryClient)
+      const { result } = renderHook(() => TestComponent(), { wrapper })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+      const refetchSpy = vi.spyOn(queryClient, 'refetchQueries')
+
+      // When: Refetch all queries
+      await act(async () => {
+        await result.current.context.refetchQueries()
+      })
+
+      // Then: Both keys are registered as the single cached query
+      expect(queryClient.getQueryCache().getAll()).toHaveLength(1)
+      expect(refetchSpy).toHaveBeenCalledTimes(1)
+    })
+  })
+})
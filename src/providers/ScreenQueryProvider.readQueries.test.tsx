@@ -0,0 +1,175 @@
+import {
+  type InfiniteData,
+  infiniteQueryOptions,
+  queryOptions,
+} from '@tanstack/react-query'
+import { act, screen } from '@testing-library/react'
+import { Suspense } from 'react'
+import { useScreenQueryContext } from '~/hooks/useScreenQueryContext'
+import {
+  createMockUser,
+  delay,
+  setupScreenQueryTest,
+} from '~/test-utils/screen-query'
+
+describe('ScreenQueryProvider.readQueries', () => {
+  const screenTest = setupScreenQueryTest()
+  const { renderScreen } = screenTest
+
+  /**
+   * Options of a user resolving after a delay
+   */
+  const userOptions = queryOptions({
+    queryKey: ['user'],
+    queryFn: async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      return createMockUser()
+    },
+  })
+
+  describe('when queryOptions() objects are passed', () => {
+    it('should return the data typed from the options once loaded', async () => {
+      // Given: A screen reading a user and its posts from query options
+      const postsOptions = queryOptions({
+        queryKey: ['posts'],
+        queryFn: async () => ['post 1', 'post 2'],
+      })
+      const Screen = () => {
+        const { readQueries } = useScreenQueryContext()
+        const [user, posts] = readQueries([userOptions, postsOptions])
+        expectTypeOf(user).toEqualTypeOf<{ id: number; name: string }>()
+        expectTypeOf(posts).toEqualTypeOf<string[]>()
+        return <div>{`${user.name}: ${posts.join(',')}`}</div>
+      }
+
+      // When: Render the screen
+      renderScreen(Screen)
+
+      // Then: The queries are fetched by the provider and revealed together
+      expect(screen.getByText('loading')).toBeDefined()
+      await screen.findByText('Test User: post 1,post 2')
+    })
+
+    it('should observe the queries with their full options', async () => {
+      // Given: A screen reading the user name selected from the options
+      const userNameOptions = queryOptions({
+        ...userOptions,
+        select: (user) => user.name.toUpperCase(),
+      })
+      const Screen = () => {
+        const { readQueries } = useScreenQueryContext()
+        const [userName] = readQueries([userNameOptions])
+        expectTypeOf(userName).toEqualTypeOf<string>()
+        return <div>{userName}</div>
+      }
+
+      // When: Render the screen
+      renderScreen(Screen)
+
+      // Then: The selected data is returned
+      await screen.findByText('TEST USER')
+    })
+  })
+
+  describe('when infiniteQueryOptions() objects are passed', () => {
+    it('should return the infinite data', async () => {
+      // Given: A screen reading the first page of posts
+      const postsOptions = infiniteQueryOptions({
+        queryKey: ['posts', 'infinite'],
+        queryFn: async ({ pageParam }) => [`post ${pageParam}`],
+        initialPageParam: 1,
+        getNextPageParam: (_, pages) => pages.length + 1,
+      })
+      const Screen = () => {
+        const { readQueries } = useScreenQueryContext()
+        const [posts] = readQueries([postsOptions])
+        expectTypeOf(posts).toEqualTypeOf<InfiniteData<string[]>>()
+        return <div>{posts.pages.flat().join(',')}</div>
+      }
+
+      // When: Render the screen
+      renderScreen(Screen)
+
+      // Then: The first page is returned
+      await screen.findByText('post 1')
+    })
+  })
+
+  describe('when a read query changes while mounted', () => {
+    it('should reveal data updated in the background', async () => {
+      // Given: A loaded screen reading the user
+      const Screen = () => {
+        const { readQueries } = useScreenQueryContext()
+        const [user] = readQueries([{ ...userOptions, staleTime: Infinity }])
+        return <div>{user.name}</div>
+      }
+      renderScreen(Screen)
+      await screen.findByText('Test User')
+
+      // When: The user is updated in the cache
+      act(() => {
+        screenTest.queryClient.setQueryData(
+          ['user'],
+          createMockUser(1, 'Updated User'),
+        )
+      })
+
+      // Then: The screen shows the new data
+      await screen.findByText('Updated User')
+    })
+
+    it('should keep the query cached past its gcTime', async () => {
+      // Given: A loaded screen reading a user with a short gcTime
+      const queryFn = vi.fn(userOptions.queryFn)
+      const Screen = () => {
+        const { readQueries } = useScreenQueryContext()
+        const [user] = readQueries([
+          { ...userOptions, queryFn, staleTime: Infinity, gcTime: 30 },
+        ])
+        return <div>{user.name}</div>
+      }
+      const { rerender } = renderScreen(Screen)
+      await screen.findByText('Test User')
+
+      // When: The gcTime elapses while the screen is mounted, then it re-renders
+      await act(() => delay(60))
+      rerender(
+        <Suspense fallback={<div>loading</div>}>
+          <Screen />
+        </Suspense>,
+      )
+
+      // Then: The query is still cached and the screen does not suspend again
+      expect(
+        screenTest.queryClient.getQueryCache().find({ queryKey: ['user'] }),
+      ).toBeDefined()
+      expect(screen.getByText('Test User')).toBeDefined()
+      expect(queryFn).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('when a query fails', () => {
+    it('should throw ScreenQueryError like getQueryResult', async () => {
+      // Given: A screen reading failing posts
+      const postsError = new Error('Posts failed')
+      const postsOptions = queryOptions({
+        queryKey: ['posts', 'failing'],
+        queryFn: (): Promise<string[]> => Promise.reject(postsError),
+      })
+      const Screen = () => {
+        const { readQueries } = useScreenQueryContext()
+        const [user] = readQueries([userOptions, postsOptions])
+        return <div>{user.name}</div>
+      }
+
+      // When: Render the screen
+      renderScreen(Screen)
+      await screen.findByText('failed')
+
+      // Then: The failure is thrown
+      expect(screenTest.queryError?.failures).toEqual([
+        { queryKey: ['posts', 'failing'], error: postsError, failureCount: 1 },
+      ])
+    })
+  })
+})
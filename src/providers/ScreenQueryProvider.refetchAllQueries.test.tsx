@@ -1,13 +1,46 @@
-import { type QueryClient, useQuery } from '@tanstack/react-query'
-import { act, renderHook, waitFor } from '@testing-library/react'
+import {
+  notifyManager,
+  type QueryClient,
+  QueryClientProvider,
+  useQuery,
+} from '@tanstack/react-query'
+import {
+  act,
+  render,
+  renderHook,
+  screen,
+  waitFor,
+} from '@testing-library/react'
+import { useScreenQueryContext } from '~/hooks/useScreenQueryContext'
+import {
+  type ScreenQueryContextValue,
+  ScreenQueryProvider,
+} from '~/providers/ScreenQueryProvider'
 import {
   createQueryClient,
   createQueryOptions,
   createWrapper,
+  delay,
   suppressConsoleError,
   useTestScreenQueryContext,
 } from '~/test-utils/screen-query'
 
+/**
+ * Create query options whose data includes the number of fetches
+ */
+function createCountingQueryOptions(key: string, fetchDelay: number) {
+  let fetchCount = 0
+  return {
+    queryKey: [key],
+    queryFn: async () => {
+      fetchCount++
+      const data = `${key}-${fetchCount}`
+      await delay(fetchDelay)
+      return data
+    },
+  }
+}
+
 describe('ScreenQueryProvider.refetchAllQueries', () => {
   let queryClient: QueryClient
 
@@ -140,4 +173,264 @@ describe('ScreenQueryProvider.refetchAllQueries', () => {
       expect(result.current.query2.dataUpdatedAt).toBeGreaterThan(0)
     })
   })
+
+  describe('when refetching with batched notifications', () => {
+    afterEach(() => {
+      // Restore the default notify function
+      notifyManager.setNotifyFunction((fn) => fn())
+    })
+
+    it('should not replace the notify function of notifyManager', async () => {
+      // Given: A custom notify function installed by the app
+      const customNotify = vi.fn((fn: () => void) => fn())
+      notifyManager.setNotifyFunction(customNotify)
+      const queryOptions = createQueryOptions(['custom-notify'], 'data')
+
+      const TestComponent = () => {
+        const query = useQuery(queryOptions)
+        const context = useScreenQueryContext()
+        if (query.isSuccess) {
+          context.getQueryResult([{ ...query, ...queryOptions }])
+        }
+        return { context, query }
+      }
+
+      const wrapper = createWrapper(queryClient)
+      const { result } = renderHook(() => TestComponent(), { wrapper })
+
+      await waitFor(() => {
+        expect(result.current.query.isSuccess).toBe(true)
+      })
+
+      const setNotifySpy = vi.spyOn(notifyManager, 'setNotifyFunction')
+      customNotify.mockClear()
+
+      // When: Execute refetchQueries
+      await act(async () => {
+        await result.current.context.refetchQueries()
+      })
+
+      // Then: The notify function is never replaced and keeps being used
+      expect(setNotifySpy).not.toHaveBeenCalled()
+      await waitFor(() => {
+        expect(customNotify).toHaveBeenCalled()
+      })
+    })
+
+    it('should reveal all refetched queries together', async () => {
+      // Given: Two queries whose refetches complete at different times
+      const fastOptions = createCountingQueryOptions('fast', 1)
+      const slowOptions = createCountingQueryOptions('slow', 30)
+      const renderedData: string[][] = []
+
+      const TestComponent = () => {
+        const fastQuery = useQuery(fastOptions)
+        const slowQuery = useQuery(slowOptions)
+        const context = useScreenQueryContext()
+
+        if (fastQuery.isSuccess && slowQuery.isSuccess) {
+          const data = context.getQueryResult([
+            { ...fastQuery, ...fastOptions },
+            { ...slowQuery, ...slowOptions },
+          ])
+          renderedData.push(data)
+        }
+
+        return context
+      }
+
+      const wrapper = createWrapper(queryClient)
+      const { result } = renderHook(() => TestComponent(), { wrapper })
+
+      await waitFor(() => {
+        expect(renderedData.length).toBeGreaterThan(0)
+      })
+
+      // When: Execute refetchQueries
+      await act(async () => {
+        await result.current.refetchQueries()
+      })
+
+      // Then: Old and new data are never rendered together
+      expect(renderedData).toContainEqual(['fast-1', 'slow-1'])
+      expect(renderedData.at(-1)).toEqual(['fast-2', 'slow-2'])
+      expect(renderedData).not.toContainEqual(['fast-2', 'slow-1'])
+    })
+
+    it('should keep the data each consumer selected from a held query', async () => {
+      // Given: Two consumers selecting different data from one query, and a slower query
+      let fetchCount = 0
+      const userOptions = {
+        queryKey: ['user'],
+        queryFn: async () => {
+          fetchCount++
+          return { name: `user${fetchCount}` }
+        },
+      }
+      const slowOptions = createCountingQueryOptions('slow', 50)
+      const renderedNames: unknown[] = []
+      let context: ScreenQueryContextValue | undefined
+
+      const NameSection = () => {
+        const query = useQuery({ ...userOptions, select: (user) => user.name })
+        const { getQueryResult } = useScreenQueryContext()
+        if (!query.isSuccess) {
+          return null
+        }
+        const [name] = getQueryResult([{ ...query, ...userOptions }])
+        renderedNames.push(name)
+        return <div>name: {name}</div>
+      }
+
+      const UserSection = () => {
+        const user = useQuery(userOptions)
+        const slow = useQuery(slowOptions)
+        context = useScreenQueryContext()
+        if (!user.isSuccess || !slow.isSuccess) {
+          return null
+        }
+        const [data] = context.getQueryResult([
+          { ...user, ...userOptions },
+          { ...slow, ...slowOptions },
+        ])
+        return <div>user: {data.name}</div>
+      }
+
+      render(
+        <QueryClientProvider client={queryClient}>
+          <ScreenQueryProvider>
+            <NameSection />
+            <UserSection />
+          </ScreenQueryProvider>
+        </QueryClientProvider>,
+      )
+      await screen.findByText('name: user1')
+      await screen.findByText('user: user1')
+
+      // When: Refetch, and let the user settle while the slow query is in flight
+      let refetchPromise: Promise<void> | undefined
+      act(() => {
+        refetchPromise = context?.refetchQueries()
+      })
+      await act(() => delay(20))
+
+      // Then: Each consumer keeps its own data until both queries are revealed
+      expect(screen.getByText('name: user1')).toBeDefined()
+      expect(screen.getByText('user: user1')).toBeDefined()
+      await act(async () => {
+        await refetchPromise
+      })
+      expect(screen.getByText('name: user2')).toBeDefined()
+      expect(screen.getByText('user: user2')).toBeDefined()
+      expect(renderedNames.every((name) => typeof name === 'string')).toBe(true)
+    })
+
+    it('should not hold back queries outside of the provider', async () => {
+      // Given: A screen with a slow query and a plain useQuery outside of it
+      const slowOptions = createCountingQueryOptions('screen-slow', 50)
+      const outsideKey = ['outside']
+      queryClient.setQueryData(outsideKey, 'outside-1')
+      let context: ScreenQueryContextValue | undefined
+
+      const Screen = () => {
+        const query = useQuery(slowOptions)
+        context = useScreenQueryContext()
+        if (!query.isSuccess) {
+          return null
+        }
+        const [data] = context.getQueryResult([{ ...query, ...slowOptions }])
+        return <div>{data}</div>
+      }
+
+      const Outside = () => {
+        const query = useQuery({
+          queryKey: outsideKey,
+          queryFn: () => 'outside-fetched',
+          staleTime: Infinity,
+        })
+        return <div>{query.data}</div>
+      }
+
+      render(
+        <QueryClientProvider client={queryClient}>
+          <ScreenQueryProvider>
+            <Screen />
+          </ScreenQueryProvider>
+          <Outside />
+        </QueryClientProvider>,
+      )
+      await screen.findByText('screen-slow-1')
+
+      // When: The outside query updates while the screen is refreshing
+      let refetchPromise: Promise<void> | undefined
+      act(() => {
+        refetchPromise = context?.refetchQueries()
+        queryClient.setQueryData(outsideKey, 'outside-2')
+      })
+
+      // Then: The outside query renders before the refresh completes
+      await screen.findByText('outside-2')
+      expect(screen.getByText('screen-slow-1')).toBeDefined()
+
+      await act(async () => {
+        await refetchPromise
+      })
+      expect(screen.getByText('screen-slow-2')).toBeDefined()
+    })
+
+    it('should refresh screens of different providers concurrently', async () => {
+      // Given: Two screens with their own providers and refetch durations
+      const fastOptions = createCountingQueryOptions('screen-a', 1)
+      const slowOptions = createCountingQueryOptions('screen-b', 50)
+      const contexts: Record<string, ScreenQueryContextValue> = {}
+
+      const Screen = ({
+        name,
+        queryOptions,
+      }: {
+        name: string
+        queryOptions: ReturnType<typeof createCountingQueryOptions>
+      }) => {
+        const query = useQuery(queryOptions)
+        const context = useScreenQueryContext()
+        contexts[name] = context
+        if (!query.isSuccess) {
+          return null
+        }
+        const [data] = context.getQueryResult([{ ...query, ...queryOptions }])
+        return <div>{data}</div>
+      }
+
+      render(
+        <QueryClientProvider client={queryClient}>
+          <ScreenQueryProvider>
+            <Screen name="a" queryOptions={fastOptions} />
+          </ScreenQueryProvider>
+          <ScreenQueryProvider>
+            <Screen name="b" queryOptions={slowOptions} />
+          </ScreenQueryProvider>
+        </QueryClientProvider>,
+      )
+      await screen.findByText('screen-a-1')
+      await screen.findByText('screen-b-1')
+
+      // When: Both screens refresh at the same time
+      let refetchPromises: Promise<void>[] = []
+      act(() => {
+        refetchPromises = [
+          contexts.a.refetchQueries(),
+          contexts.b.refetchQueries(),
+        ]
+      })
+
+      // Then: The fast screen is revealed without waiting for the slow one
+      await screen.findByText('screen-a-2')
+      expect(screen.getByText('screen-b-1')).toBeDefined()
+
+      await act(async () => {
+        await Promise.all(refetchPromises)
+      })
+      expect(screen.getByText('screen-b-2')).toBeDefined()
+    })
+  })
 })
@@ -0,0 +1,134 @@
+import { focusManager, type QueryClient } from '@tanstack/react-query'
+import { act, render, screen, waitFor } from '@testing-library/react'
+import { Suspense } from 'react'
+import { useScreenQueries } from '~/hooks/useScreenQueries'
+import {
+  createQueryClient,
+  createVersionServer,
+  createWrapper,
+  delay,
+  suppressConsoleError,
+  type VersionServer,
+} from '~/test-utils/screen-query'
+
+describe('ScreenQueryProvider.refetchInterval', () => {
+  let queryClient: QueryClient
+  let server: VersionServer
+  let renders: string[]
+
+  /**
+   * Render a polled screen showing a user and its posts
+   */
+  const renderScreen = async (refetchInterval: number, postsDelay = 30) => {
+    const Screen = () => {
+      const [user, posts] = useScreenQueries([
+        server.versionQuery('user', 10),
+        server.versionQuery('posts', postsDelay),
+      ])
+      renders.push(`${user}, ${posts}`)
+      return <div>{`${user}, ${posts}`}</div>
+    }
+    const result = render(
+      <Suspense fallback={<div>loading</div>}>
+        <Screen />
+      </Suspense>,
+      { wrapper: createWrapper(queryClient, { refetchInterval }) },
+    )
+    await screen.findByText('user v1, posts v1')
+    return result
+  }
+
+  beforeEach(() => {
+    // Suppress console.error including React 18 Suspense warnings
+    suppressConsoleError()
+    // Given: Initialize new QueryClient keeping the data cached while suspended
+    queryClient = createQueryClient()
+    queryClient.setDefaultOptions({ queries: { retry: false } })
+    server = createVersionServer()
+    renders = []
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    // Cleanup after test
+    queryClient.clear()
+    focusManager.setFocused(undefined)
+  })
+
+  describe('when refetchInterval is set', () => {
+    it('should poll the registered queries and reveal them together', async () => {
+      // Given: A screen polled every 50ms
+      await renderScreen(50)
+
+      // When: The server data changes
+      server.version = 2
+
+      // Then: The next poll updates the screen in one render
+      await screen.findByText('user v2, posts v2')
+      expect(renders).not.toContain('user v2, posts v1')
+    })
+
+    it('should skip ticks while a refetch is in progress', async () => {
+      // Given: A screen polled more often than its posts take to load
+      await renderScreen(20, 70)
+      server.fetchedKeys = []
+
+      // When: Let several ticks elapse
+      await act(() => delay(250))
+
+      // Then: Polls never overlap
+      expect(server.fetchedKeys.length).toBeGreaterThan(0)
+      expect(server.maxInFlight).toBeLessThanOrEqual(2)
+    })
+
+    it('should pause while the app is unfocused', async () => {
+      // Given: A polled screen in the background
+      await renderScreen(20)
+      act(() => {
+        focusManager.setFocused(false)
+      })
+      await act(() => delay(50))
+      server.fetchedKeys = []
+
+      // When: Let several ticks elapse
+      await act(() => delay(100))
+
+      // Then: Nothing is polled until the app is focused again
+      expect(server.fetchedKeys).toEqual([])
+      act(() => {
+        focusManager.setFocused(true)
+      })
+      await waitFor(() => {
+        expect(server.fetchedKeys).toContain('posts')
+      })
+    })
+
+    it('should stop polling on unmount', async () => {
+      // Given: A polled screen
+      const { unmount } = await renderScreen(20)
+
+      // When: Unmount the screen
+      unmount()
+      await delay(30)
+      server.fetchedKeys = []
+      await delay(100)
+
+      // Then: Nothing is polled anymore
+      expect(server.fetchedKeys).toEqual([])
+    })
+  })
+
+  describe('when refetchInterval is not set', () => {
+    it('should not poll', async () => {
+      // Given: A screen without polling
+      await renderScreen(0)
+      server.fetchedKeys = []
+
+      // When: Let time elapse
+      await act(() => delay(100))
+
+      // Then: Nothing is refetched
+      expect(server.fetchedKeys).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,211 @@
+import {
+  focusManager,
+  onlineManager,
+  type QueryClient,
+} from '@tanstack/react-query'
+import { act, render, screen } from '@testing-library/react'
+import { Suspense } from 'react'
+import { useScreenQueries } from '~/hooks/useScreenQueries'
+import {
+  createQueryClient,
+  createVersionServer,
+  createWrapper,
+  suppressConsoleError,
+  type VersionServer,
+} from '~/test-utils/screen-query'
+import type { ScreenQueryEventSource } from './ScreenQueryProvider'
+
+/**
+ * Event source whose listeners are called manually
+ */
+function createEventSource() {
+  const listeners = new Set<(active: boolean) => void>()
+  return {
+    listeners,
+    subscribe: (listener: (active: boolean) => void) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    emit: (active: boolean) => {
+      listeners.forEach((listener) => {
+        listener(active)
+      })
+    },
+  } satisfies ScreenQueryEventSource & Record<string, unknown>
+}
+
+describe('ScreenQueryProvider.refetchOnFocus', () => {
+  let queryClient: QueryClient
+  let server: VersionServer
+  let renders: string[]
+
+  /**
+   * Options of a server query with a staleTime
+   */
+  const versionQuery = (key: string, ms: number, staleTime = 0) => ({
+    ...server.versionQuery(key, ms),
+    staleTime,
+    // Keep stale queries from refetching when the screen mounts after suspending
+    refetchOnMount: false,
+  })
+
+  /**
+   * Render a screen showing a user and its posts, then bump the server version
+   */
+  const renderScreen = async (
+    providerProps: Parameters<typeof createWrapper>[1],
+    postsStaleTime = 0,
+  ) => {
+    const Screen = () => {
+      const [user, posts] = useScreenQueries([
+        versionQuery('user', 10),
+        versionQuery('posts', 30, postsStaleTime),
+      ])
+      renders.push(`${user}, ${posts}`)
+      return <div>{`${user}, ${posts}`}</div>
+    }
+    const result = render(
+      <Suspense fallback={<div>loading</div>}>
+        <Screen />
+      </Suspense>,
+      { wrapper: createWrapper(queryClient, providerProps) },
+    )
+    await screen.findByText('user v1, posts v1')
+    server.version = 2
+    server.fetchedKeys = []
+    return result
+  }
+
+  beforeEach(() => {
+    // Suppress console.error including React 18 Suspense warnings
+    suppressConsoleError()
+    // Given: Initialize new QueryClient keeping the data cached while suspended
+    queryClient = createQueryClient()
+    queryClient.setDefaultOptions({ queries: { retry: false } })
+    queryClient.mount()
+    server = createVersionServer()
+    renders = []
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    // Cleanup after test
+    queryClient.unmount()
+    queryClient.clear()
+    focusManager.setFocused(undefined)
+    onlineManager.setOnline(true)
+  })
+
+  describe('when refetchOnFocus is enabled', () => {
+    it('should refetch the stale queries when the source reports focus', async () => {
+      // Given: A loaded screen with a custom focus source
+      const focusSource = createEventSource()
+      await renderScreen({ refetchOnFocus: true, focusSource })
+
+      // When: The app gains focus
+      act(() => {
+        focusSource.emit(true)
+      })
+
+      // Then: The queries are refetched and revealed together
+      await screen.findByText('user v2, posts v2')
+      expect(server.fetchedKeys).toEqual(['user', 'posts'])
+      expect(renders).not.toContain('user v2, posts v1')
+    })
+
+    it('should not refetch when the source reports a loss of focus', async () => {
+      // Given: A loaded screen with a custom focus source
+      const focusSource = createEventSource()
+      await renderScreen({ refetchOnFocus: true, focusSource })
+
+      // When: The app loses focus
+      act(() => {
+        focusSource.emit(false)
+      })
+
+      // Then: Nothing is refetched
+      expect(server.fetchedKeys).toEqual([])
+    })
+
+    it('should skip fresh queries', async () => {
+      // Given: A loaded screen whose posts never become stale
+      const focusSource = createEventSource()
+      await renderScreen({ refetchOnFocus: true, focusSource }, Infinity)
+
+      // When: The app gains focus
+      act(() => {
+        focusSource.emit(true)
+      })
+
+      // Then: Only the stale user is refetched
+      await screen.findByText('user v2, posts v1')
+      expect(server.fetchedKeys).toEqual(['user'])
+    })
+
+    it('should join the refetches of focusManager instead of fetching twice', async () => {
+      // Given: A loaded screen whose queries also refetch on window focus
+      await renderScreen({ refetchOnFocus: true })
+      act(() => {
+        focusManager.setFocused(false)
+      })
+
+      // When: The window gains focus
+      act(() => {
+        focusManager.setFocused(true)
+      })
+
+      // Then: Each query is fetched once, and the screen is updated in one render
+      await screen.findByText('user v2, posts v2')
+      expect(server.fetchedKeys).toEqual(['user', 'posts'])
+      expect(renders).not.toContain('user v2, posts v1')
+    })
+
+    it('should unsubscribe from the source on unmount', async () => {
+      // Given: A loaded screen with a custom focus source
+      const focusSource = createEventSource()
+      const { unmount } = await renderScreen({
+        refetchOnFocus: true,
+        focusSource,
+      })
+
+      // When: Unmount the screen
+      unmount()
+
+      // Then: The provider stopped listening
+      expect(focusSource.listeners.size).toBe(0)
+    })
+  })
+
+  describe('when refetchOnFocus is disabled', () => {
+    it('should not listen to the focus source', async () => {
+      // Given/When: A loaded screen with the default options
+      const focusSource = createEventSource()
+      await renderScreen({ focusSource })
+
+      // Then: The source has no listener
+      expect(focusSource.listeners.size).toBe(0)
+    })
+  })
+
+  describe('when refetchOnReconnect is enabled', () => {
+    it('should refetch the stale queries when the app goes back online', async () => {
+      // Given: A loaded screen while offline
+      await renderScreen({ refetchOnReconnect: true })
+      act(() => {
+        onlineManager.setOnline(false)
+      })
+
+      // When: The app goes back online
+      act(() => {
+        onlineManager.setOnline(true)
+      })
+
+      // Then: The queries are refetched and revealed together
+      await screen.findByText('user v2, posts v2')
+      expect(server.fetchedKeys).toEqual(['user', 'posts'])
+      expect(renders).not.toContain('user v2, posts v1')
+    })
+  })
+})
@@ -0,0 +1,245 @@
+import { type QueryClient, useQueries } from '@tanstack/react-query'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { ScreenQueryError } from '~/errors/ScreenQueryError'
+import {
+  createQueryClient,
+  createQueryOptions,
+  createWrapper,
+  suppressConsoleError,
+  useTestScreenQueryContext,
+} from '~/test-utils/screen-query'
+
+type QueryOptions = ReturnType<typeof createQueryOptions<string>>
+
+/**
+ * Collect query keys passed to queryClient.refetchQueries
+ */
+function getRefetchedKeys(refetchSpy: { mock: { calls: unknown[][] } }) {
+  return refetchSpy.mock.calls.map(
+    ([filters]) => (filters as { queryKey: unknown }).queryKey,
+  )
+}
+
+/**
+ * Render a screen registering all given queries in the default group
+ */
+async function renderScreen(
+  queryClient: QueryClient,
+  queryOptionsList: QueryOptions[],
+) {
+  const TestComponent = () => {
+    const queries = useQueries({ queries: queryOptionsList })
+    const context = useTestScreenQueryContext()
+    const isSuccess = queries.every((query) => query.isSuccess)
+
+    if (isSuccess) {
+      context.getQueryResult(
+        queries.map((query, index) => ({
+          ...query,
+          ...queryOptionsList[index],
+        })),
+      )
+    }
+
+    return { context, isSuccess }
+  }
+
+  const wrapper = createWrapper(queryClient)
+  const { result } = renderHook(() => TestComponent(), { wrapper })
+
+  await waitFor(() => {
+    expect(result.current.isSuccess).toBe(true)
+  })
+
+  return result
+}
+
+describe('ScreenQueryProvider.refetchOptions', () => {
+  let queryClient: QueryClient
+
+  beforeEach(() => {
+    // Suppress console.error including React 18 Suspense warnings
+    suppressConsoleError()
+    // Given: Initialize new QueryClient
+    queryClient = createQueryClient()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    // Cleanup after test
+    queryClient.clear()
+  })
+
+  describe('when refetching with filters', () => {
+    it('should only refetch queries matching one of the query keys', async () => {
+      // Given: Two todo queries and a user query
+      const result = await renderScreen(queryClient, [
+        createQueryOptions(['todos', '1'], 'todo-1'),
+        createQueryOptions(['todos', '2'], 'todo-2'),
+        createQueryOptions(['user'], 'user'),
+      ])
+      const refetchSpy = vi.spyOn(queryClient, 'refetchQueries')
+
+      // When: Refetch queries whose key starts with 'todos'
+      await act(async () => {
+        await result.current.context.refetchQueries({
+          queryKeys: [['todos']],
+        })
+      })
+
+      // Then: Only the todo queries are refetched
+      expect(getRefetchedKeys(refetchSpy)).toEqual([
+        ['todos', '1'],
+        ['todos', '2'],
+      ])
+    })
+
+    it('should only refetch queries accepted by the predicate', async () => {
+      // Given: Two registered queries
+      const result = await renderScreen(queryClient, [
+        createQueryOptions(['profile'], 'profile'),
+        createQueryOptions(['settings'], 'settings'),
+      ])
+      const refetchSpy = vi.spyOn(queryClient, 'refetchQueries')
+
+      // When: Refetch with a predicate over the cached Query
+      await act(async () => {
+        await result.current.context.refetchQueries({
+          predicate: (query) => query.queryKey[0] === 'settings',
+        })
+      })
+
+      // Then: Only the accepted query is refetched
+      expect(getRefetchedKeys(refetchSpy)).toEqual([['settings']])
+    })
+
+    it('should only refetch stale queries when type is stale', async () => {
+      // Given: A stale query and a query that never becomes stale
+      const result = await renderScreen(queryClient, [
+        createQueryOptions(['stale'], 'stale', { staleTime: 0 }),
+        createQueryOptions(['fresh'], 'fresh', { staleTime: Infinity }),
+      ])
+      const refetchSpy = vi.spyOn(queryClient, 'refetchQueries')
+
+      // When: Refetch only stale queries
+      await act(async () => {
+        await result.current.context.refetchQueries({ type: 'stale' })
+      })
+
+      // Then: The fresh query is skipped
+      expect(getRefetchedKeys(refetchSpy)).toEqual([['stale']])
+    })
+
+    it('should combine filters with a group', async () => {
+      // Given: Queries registered in the default group
+      const result = await renderScreen(queryClient, [
+        createQueryOptions(['todos', '1'], 'todo-1'),
+      ])
+      const refetchSpy = vi.spyOn(queryClient, 'refetchQueries')
+
+      // When: Refetch matching keys in another group
+      await act(async () => {
+        await result.current.context.refetchQueries({
+          group: 'panel',
+          queryKeys: [['todos']],
+        })
+      })
+
+      // Then: No query is refetched
+      expect(refetchSpy).not.toHaveBeenCalled()
+    })
+
+    it('should pass cancelRefetch to the QueryClient', async () => {
+      // Given: A registered query
+      const result = await renderScreen(queryClient, [
+        createQueryOptions(['cancel'], 'cancel'),
+      ])
+      const refetchSpy = vi.spyOn(queryClient, 'refetchQueries')
+
+      // When: Refetch without cancelling fetches in flight
+      await act(async () => {
+        await result.current.context.refetchQueries({ cancelRefetch: false })
+      })
+
+      // Then: The option is forwarded
+      expect(refetchSpy).toHaveBeenCalledWith(
+        { queryKey: ['cancel'], exact: true },
+        { cancelRefetch: false },
+      )
+    })
+  })
+
+  describe('when throwOnError is set', () => {
+    it('should reject with the failures once every refetch settled', async () => {
+      // Given: A registered query that fails on refetch and one that succeeds
+      const refetchError = new Error('Refetch failed')
+      let shouldFail = false
+      const failingOptions = {
+        ...createQueryOptions(['failing'], 'failing'),
+        queryFn: async () => {
+          if (shouldFail) throw refetchError
+          return 'failing'
+        },
+      }
+      const result = await renderScreen(queryClient, [
+        failingOptions,
+        createQueryOptions(['slow'], 'slow', { delay: 20 }),
+      ])
+      shouldFail = true
+
+      // When: Refetch all queries, rejecting on failures
+      let error: unknown
+      await act(async () => {
+        await result.current.context
+          .refetchQueries({ throwOnError: true })
+          .catch((reason) => {
+            error = reason
+          })
+      })
+
+      // Then: The failed query is reported after the slow query was refetched
+      expect(error).toBeInstanceOf(ScreenQueryError)
+      expect((error as ScreenQueryError).failures).toEqual([
+        { queryKey: ['failing'], error: refetchError, failureCount: 1 },
+      ])
+      expect(queryClient.getQueryState(['slow'])?.fetchStatus).toBe('idle')
+    })
+
+    it('should resolve when every refetch succeeds', async () => {
+      // Given: A registered query
+      const result = await renderScreen(queryClient, [
+        createQueryOptions(['ok'], 'ok'),
+      ])
+
+      // When/Then: Refetching with throwOnError resolves
+      await act(async () => {
+        await expect(
+          result.current.context.refetchQueries({ throwOnError: true }),
+        ).resolves.toBeUndefined()
+      })
+    })
+  })
+
+  describe('when a registered query is no longer cached', () => {
+    it('should skip it', async () => {
+      // Given: Two registered queries, one removed from the cache
+      const result = await renderScreen(queryClient, [
+        createQueryOptions(['kept'], 'kept'),
+        createQueryOptions(['removed'], 'removed'),
+      ])
+      queryClient.getQueryCache().remove(
+        // biome-ignore lint/style/noNonNullAssertion: registered above
+        queryClient.getQueryCache().find({ queryKey: ['removed'] })!,
+      )
+      const refetchSpy = vi.spyOn(queryClient, 'refetchQueries')
+
+      // When: Refetch all queries
+      await act(async () => {
+        await result.current.context.refetchQueries()
+      })
+
+      // Then: Only the cached query is refetched
+      expect(getRefetchedKeys(refetchSpy)).toEqual([['kept']])
+    })
+  })
+})
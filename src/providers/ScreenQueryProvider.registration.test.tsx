@@ -0,0 +1,419 @@
+import {
+  type QueryClient,
+  QueryClientProvider,
+  QueryObserver,
+  useQuery,
+} from '@tanstack/react-query'
+import {
+  act,
+  render,
+  renderHook,
+  screen,
+  waitFor,
+} from '@testing-library/react'
+import { Suspense } from 'react'
+import { useScreenQueryContext } from '~/hooks/useScreenQueryContext'
+import {
+  type ScreenQueryContextValue,
+  ScreenQueryProvider,
+} from '~/providers/ScreenQueryProvider'
+import {
+  createQueryClient,
+  createQueryOptions,
+  createWrapper,
+  delay,
+  suppressConsoleError,
+  useTestScreenQueryContext,
+} from '~/test-utils/screen-query'
+
+/**
+ * Collect query keys passed to queryClient.refetchQueries
+ */
+function getRefetchedKeys(refetchSpy: { mock: { calls: unknown[][] } }) {
+  return refetchSpy.mock.calls.map(
+    ([filters]) => (filters as { queryKey: unknown }).queryKey,
+  )
+}
+
+describe('ScreenQueryProvider.registration', () => {
+  let queryClient: QueryClient
+
+  beforeEach(() => {
+    // Suppress console.error including React 18 Suspense warnings
+    suppressConsoleError()
+    // Given: Initialize new QueryClient
+    queryClient = createQueryClient()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    // Cleanup after test
+    queryClient.clear()
+  })
+
+  describe('when a consuming component stops using a query', () => {
+    it('should unregister queries of an unmounted section', async () => {
+      // Given: A screen with a conditional section using its own query
+      const screenOptions = createQueryOptions(['screen'], 'screen')
+      const sectionOptions = createQueryOptions(['section'], 'section')
+      let context: ScreenQueryContextValue | undefined
+
+      const Section = () => {
+        const query = useQuery(sectionOptions)
+        const { getQueryResult } = useScreenQueryContext()
+        if (query.isSuccess) {
+          getQueryResult([{ ...query, ...sectionOptions }])
+        }
+        return <div>{query.isSuccess ? 'section-ready' : 'loading'}</div>
+      }
+
+      const Screen = ({ showSection }: { showSection: boolean }) => {
+        const query = useQuery(screenOptions)
+        context = useScreenQueryContext()
+        if (query.isSuccess) {
+          context.getQueryResult([{ ...query, ...screenOptions }])
+        }
+        return showSection ? <Section /> : null
+      }
+
+      const wrapper = createWrapper(queryClient)
+      const { rerender } = render(<Screen showSection />, { wrapper })
+      await screen.findByText('section-ready')
+
+      // When: The section is no longer rendered
+      rerender(<Screen showSection={false} />)
+
+      const refetchSpy = vi.spyOn(queryClient, 'refetchQueries')
+      await act(async () => {
+        await context?.refetchQueries()
+      })
+
+      // Then: Only the query still in use is refetched
+      expect(getRefetchedKeys(refetchSpy)).toEqual([['screen']])
+    })
+
+    it('should release the previous key when params change', async () => {
+      // Given: A component whose query key depends on a param
+      const TestComponent = ({ id }: { id: number }) => {
+        const queryOptions = createQueryOptions(['user', String(id)], id)
+        const query = useQuery(queryOptions)
+        const context = useScreenQueryContext()
+        if (query.isSuccess) {
+          context.getQueryResult([{ ...query, ...queryOptions }])
+        }
+        return { context, isSuccess: query.isSuccess }
+      }
+
+      const wrapper = createWrapper(queryClient)
+      const { result, rerender } = renderHook(
+        (props: { id: number }) => TestComponent(props),
+        { wrapper, initialProps: { id: 1 } },
+      )
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      // When: The param changes
+      rerender({ id: 2 })
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      const refetchSpy = vi.spyOn(queryClient, 'refetchQueries')
+      await act(async () => {
+        await result.current.context.refetchQueries()
+      })
+
+      // Then: Only the current key is refetched
+      expect(getRefetchedKeys(refetchSpy)).toEqual([['user', '2']])
+    })
+
+    it('should unregister a shared query once the last consumer unmounts', async () => {
+      // Given: Two components sharing the same query
+      const queryOptions = createQueryOptions(['shared'], 'shared')
+      let context: ScreenQueryContextValue | undefined
+
+      const Consumer = () => {
+        const query = useQuery(queryOptions)
+        const { getQueryResult } = useScreenQueryContext()
+        if (query.isSuccess) {
+          getQueryResult([{ ...query, ...queryOptions }])
+        }
+        return <div>{query.isSuccess ? 'consumer-ready' : 'loading'}</div>
+      }
+
+      const Screen = ({ consumers }: { consumers: number }) => {
+        context = useTestScreenQueryContext()
+        return (
+          <>
+            {consumers > 0 && <Consumer />}
+            {consumers > 1 && <Consumer />}
+          </>
+        )
+      }
+
+      const wrapper = createWrapper(queryClient)
+      const { rerender } = render(<Screen consumers={2} />, { wrapper })
+      await waitFor(() => {
+        expect(screen.getAllByText('consumer-ready')).toHaveLength(2)
+      })
+
+      // When: One of the consumers unmounts
+      rerender(<Screen consumers={1} />)
+
+      // Then: The query is still registered
+      const refetchSpy = vi.spyOn(queryClient, 'refetchQueries')
+      await act(async () => {
+        await context?.refetchQueries()
+      })
+      expect(getRefetchedKeys(refetchSpy)).toEqual([['shared']])
+
+      // When: The last consumer unmounts
+      rerender(<Screen consumers={0} />)
+
+      // Then: The query is unregistered
+      refetchSpy.mockClear()
+      await act(async () => {
+        await context?.refetchQueries()
+      })
+      expect(refetchSpy).not.toHaveBeenCalled()
+    })
+
+    it('should keep a query used by a consumer in another group', async () => {
+      // Given: The same query used in the default group and the 'panel' group
+      const queryOptions = createQueryOptions(['multi-group'], 'data')
+      let context: ScreenQueryContextValue | undefined
+
+      const Consumer = ({ group }: { group?: string }) => {
+        const query = useQuery(queryOptions)
+        const { getQueryResult } = useScreenQueryContext()
+        if (query.isSuccess) {
+          getQueryResult([{ ...query, ...queryOptions }], { group })
+        }
+        return <div>{query.isSuccess ? 'consumer-ready' : 'loading'}</div>
+      }
+
+      const Screen = ({ showPanel }: { showPanel: boolean }) => {
+        context = useTestScreenQueryContext()
+        return (
+          <>
+            <Consumer />
+            {showPanel && <Consumer group="panel" />}
+          </>
+        )
+      }
+
+      const wrapper = createWrapper(queryClient)
+      const { rerender } = render(<Screen showPanel />, { wrapper })
+      await waitFor(() => {
+        expect(screen.getAllByText('consumer-ready')).toHaveLength(2)
+      })
+
+      // When: The panel consumer unmounts
+      rerender(<Screen showPanel={false} />)
+
+      const refetchSpy = vi.spyOn(queryClient, 'refetchQueries')
+      await act(async () => {
+        await context?.refetchQueries('panel')
+      })
+
+      // Then: The query is no longer in the panel group
+      expect(refetchSpy).not.toHaveBeenCalled()
+
+      // And: It is still registered in the default group
+      await act(async () => {
+        await context?.refetchQueries()
+      })
+      expect(getRefetchedKeys(refetchSpy)).toEqual([['multi-group']])
+    })
+  })
+
+  describe('when params change while a render is suspended', () => {
+    /**
+     * Item suspended until the query of its id is loaded; 'B' loads slowly.
+     * Cached data is kept so it is refetched as long as it stays registered.
+     */
+    const Item = ({ id }: { id: string }) => {
+      const queryOptions = {
+        ...createQueryOptions(['item', id], id, {
+          delay: id === 'B' ? 50 : 0,
+          staleTime: Infinity,
+        }),
+        gcTime: Infinity,
+      }
+      const query = useQuery(queryOptions)
+      const { getQueryResult } = useScreenQueryContext()
+      const [data] = getQueryResult([{ ...query, ...queryOptions }])
+      return <p>{`item ${data}`}</p>
+    }
+
+    it('should release the key of the render that never committed', async () => {
+      // Given: A loaded item whose param changes to a slow key
+      let context: ScreenQueryContextValue | undefined
+      const Screen = ({ id }: { id: string }) => {
+        context = useTestScreenQueryContext()
+        return (
+          <Suspense fallback={<p>loading</p>}>
+            <Item id={id} />
+          </Suspense>
+        )
+      }
+      const wrapper = createWrapper(queryClient)
+      const { rerender } = render(<Screen id="A" />, { wrapper })
+      await screen.findByText('item A')
+      rerender(<Screen id="B" />)
+      await screen.findByText('loading')
+
+      // When: The param changes again before the slow key is loaded
+      rerender(<Screen id="C" />)
+      await screen.findByText('item C')
+      await act(() => delay(60))
+
+      // Then: Only the key in use is refetched
+      const refetchSpy = vi.spyOn(queryClient, 'refetchQueries')
+      await act(async () => {
+        await context?.refetchQueries()
+      })
+      expect(getRefetchedKeys(refetchSpy)).toEqual([['item', 'C']])
+    })
+
+    it('should release the key of a component unmounted before it committed', async () => {
+      // Given: An item that never mounted, removed while suspended
+      let context: ScreenQueryContextValue | undefined
+      const Screen = ({ showItem }: { showItem: boolean }) => {
+        context = useScreenQueryContext()
+        return (
+          <Suspense fallback={<p>loading</p>}>
+            {showItem ? <Item id="B" /> : <p>no item</p>}
+          </Suspense>
+        )
+      }
+      const wrapper = createWrapper(queryClient)
+      const { rerender } = render(<Screen showItem />, { wrapper })
+      await screen.findByText('loading')
+      rerender(<Screen showItem={false} />)
+      await screen.findByText('no item')
+
+      // When: The query settles, then another consumer commits twice
+      await act(() => delay(60))
+      rerender(<Screen showItem={false} />)
+      rerender(<Screen showItem={false} />)
+
+      // Then: The key is no longer registered
+      const refetchSpy = vi.spyOn(queryClient, 'refetchQueries')
+      await act(async () => {
+        await context?.refetchQueries()
+      })
+      expect(refetchSpy).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('when the provider re-renders with new props', () => {
+    it('should keep the observers of its consumers', async () => {
+      // Given: A provider with an inline throwOnError and a loaded consumer
+      const queryOptions = createQueryOptions(['user'], 'user')
+      const Consumer = () => {
+        const query = useQuery(queryOptions)
+        const { getQueryResult } = useScreenQueryContext()
+        const [data] = getQueryResult([{ ...query, ...queryOptions }])
+        return <p>{`${data} loaded`}</p>
+      }
+      const App = ({ revision }: { revision: number }) => (
+        <QueryClientProvider client={queryClient}>
+          <ScreenQueryProvider throwOnError={(error) => error !== undefined}>
+            <Suspense fallback={<p>loading</p>}>
+              <p>{`revision ${revision}`}</p>
+              <Consumer />
+            </Suspense>
+          </ScreenQueryProvider>
+        </QueryClientProvider>
+      )
+      const { rerender } = render(<App revision={0} />)
+      await screen.findByText('user loaded')
+      const destroy = vi.spyOn(QueryObserver.prototype, 'destroy')
+
+      // When: The parent re-renders, passing a new throwOnError
+      rerender(<App revision={1} />)
+      await screen.findByText('revision 1')
+
+      // Then: No observer is destroyed
+      expect(destroy).not.toHaveBeenCalled()
+      expect(screen.getByText('user loaded')).toBeDefined()
+    })
+  })
+
+  describe('when queries are registered through the context directly', () => {
+    it('should keep them registered until the provider unmounts', async () => {
+      // Given: A component registering through ScreenQueryContext
+      const queryOptions = createQueryOptions(['persistent'], 'data')
+      let context: ScreenQueryContextValue | undefined
+
+      const Consumer = () => {
+        const query = useQuery(queryOptions)
+        const { getQueryResult } = useTestScreenQueryContext()
+        if (query.isSuccess) {
+          getQueryResult([{ ...query, ...queryOptions }])
+        }
+        return <div>{query.isSuccess ? 'consumer-ready' : 'loading'}</div>
+      }
+
+      const Screen = ({ show }: { show: boolean }) => {
+        context = useTestScreenQueryContext()
+        return show ? <Consumer /> : null
+      }
+
+      const wrapper = createWrapper(queryClient)
+      const { rerender } = render(<Screen show />, { wrapper })
+      await screen.findByText('consumer-ready')
+
+      // When: The component unmounts
+      rerender(<Screen show={false} />)
+
+      const refetchSpy = vi.spyOn(queryClient, 'refetchQueries')
+      await act(async () => {
+        await context?.refetchQueries()
+      })
+
+      // Then: The query is still registered
+      expect(getRefetchedKeys(refetchSpy)).toEqual([['persistent']])
+    })
+  })
+
+  describe('when an observer is destroyed while a component is suspended', () => {
+    it('should resolve the pending promise so the component can retry', async () => {
+      // Given: A component suspended on a permanently pending query
+      const queryOptions = createQueryOptions(['wake-up'], null, {
+        isPending: true,
+      })
+      let thrownPromise: Promise<unknown> | undefined
+
+      const TestComponent = () => {
+        const query = useQuery(queryOptions)
+        const context = useTestScreenQueryContext()
+        try {
+          context.getQueryResult([{ ...query, ...queryOptions }])
+        } catch (error) {
+          if (error instanceof Promise) {
+            // Keep the promise thrown on the first render
+            thrownPromise ??= error
+          }
+        }
+        return context
+      }
+
+      const wrapper = createWrapper(queryClient)
+      const { result } = renderHook(() => TestComponent(), { wrapper })
+      expect(thrownPromise).toBeInstanceOf(Promise)
+
+      // When: The observer is destroyed by clearCache
+      // (not awaited because resetting refetches the never-settling query)
+      act(() => {
+        void result.current.clearCache('all')
+      })
+
+      // Then: The thrown promise resolves even though the query is still pending
+      await expect(thrownPromise).resolves.toBeUndefined()
+    })
+  })
+})
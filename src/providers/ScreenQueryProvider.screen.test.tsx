@@ -0,0 +1,141 @@
+import { type QueryClient, useQuery } from '@tanstack/react-query'
+import { render, screen, waitFor } from '@testing-library/react'
+import { Suspense } from 'react'
+import { useScreenQueryContext } from '~/hooks/useScreenQueryContext'
+import { defineScreen, prefetchScreen } from '~/screens/defineScreen'
+import {
+  createQueryClient,
+  createQueryOptions,
+  createWrapper,
+  suppressConsoleError,
+} from '~/test-utils/screen-query'
+
+describe('ScreenQueryProvider.screen', () => {
+  let queryClient: QueryClient
+  let suspendedCount: number
+
+  /**
+   * Screen loading a user and the posts of the user
+   */
+  const userScreen = defineScreen(({ userId }: { userId: number }) => [
+    createQueryOptions(['user', String(userId)], `user ${userId}`, {
+      delay: 10,
+    }),
+    createQueryOptions(['posts', String(userId)], `posts of ${userId}`, {
+      delay: 10,
+    }),
+  ])
+
+  /**
+   * Component rendering the user screen, suspending on new Observers
+   */
+  const UserScreen = ({ userId }: { userId: number }) => {
+    const [userOptions, postsOptions] = userScreen.queries({ userId })
+    const user = useQuery(userOptions)
+    const posts = useQuery(postsOptions)
+    const { getQueryResult } = useScreenQueryContext()
+    try {
+      const [userData, postsData] = getQueryResult(
+        [
+          { ...user, ...userOptions },
+          { ...posts, ...postsOptions },
+        ],
+        { suspendOnCreate: true },
+      )
+      return <div>{`${userData}: ${postsData}`}</div>
+    } catch (thrown) {
+      if (thrown instanceof Promise) {
+        suspendedCount++
+      }
+      throw thrown
+    }
+  }
+
+  /**
+   * Render the user screen inside Suspense
+   */
+  const renderScreen = (
+    userId: number,
+    providerProps?: Parameters<typeof createWrapper>[1],
+  ) =>
+    render(
+      <Suspense fallback={<div>loading</div>}>
+        <UserScreen userId={userId} />
+      </Suspense>,
+      { wrapper: createWrapper(queryClient, providerProps) },
+    )
+
+  beforeEach(() => {
+    // Suppress console.error including React 18 Suspense warnings
+    suppressConsoleError()
+    // Given: Initialize new QueryClient keeping the prefetched data cached until rendered
+    queryClient = createQueryClient()
+    queryClient.setDefaultOptions({ queries: { retry: false } })
+    suspendedCount = 0
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    // Cleanup after test
+    queryClient.clear()
+  })
+
+  describe('when the screen is prefetched', () => {
+    it('should render without suspending', async () => {
+      // Given: The screen prefetched before navigation
+      await prefetchScreen(queryClient, userScreen, { userId: 1 })
+
+      // When: Render the screen with its definition
+      renderScreen(1, { screen: userScreen, params: { userId: 1 } })
+
+      // Then: The data is rendered without suspending
+      expect(screen.getByText('user 1: posts of 1')).toBeDefined()
+      expect(suspendedCount).toBe(0)
+    })
+
+    it('should suspend without the screen definition', async () => {
+      // Given: The screen prefetched before navigation
+      await prefetchScreen(queryClient, userScreen, { userId: 1 })
+
+      // When: Render the screen without its definition
+      renderScreen(1)
+
+      // Then: The new Observers suspend the screen first
+      await screen.findByText('user 1: posts of 1')
+      expect(suspendedCount).toBeGreaterThan(0)
+    })
+  })
+
+  describe('when the screen is not prefetched', () => {
+    it('should fetch the queries of the screen and reveal them together', async () => {
+      // Given/When: Render the screen with its definition
+      renderScreen(2, { screen: userScreen, params: { userId: 2 } })
+
+      // Then: The screen suspends until all its queries are loaded
+      expect(screen.getByText('loading')).toBeDefined()
+      await screen.findByText('user 2: posts of 2')
+    })
+  })
+
+  describe('when the provider unmounts', () => {
+    it('should release the Observers of the screen', async () => {
+      // Given: The screen rendered with its definition
+      await prefetchScreen(queryClient, userScreen, { userId: 3 })
+      const { unmount } = renderScreen(3, {
+        screen: userScreen,
+        params: { userId: 3 },
+      })
+
+      // When: Unmount the provider
+      unmount()
+
+      // Then: No Observer keeps the screen's queries
+      await waitFor(() => {
+        expect(
+          queryClient.getQueryCache().find({ queryKey: ['user', '3'] })
+            ?.observers,
+        ).toHaveLength(0)
+      })
+    })
+  })
+})
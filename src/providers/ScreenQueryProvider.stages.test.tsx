@@ -0,0 +1,132 @@
+import { type QueryClient, useQuery } from '@tanstack/react-query'
+import { act, render, screen } from '@testing-library/react'
+import { Suspense } from 'react'
+import { ScreenQueryError } from '~/errors/ScreenQueryError'
+import { useScreenQueryContext } from '~/hooks/useScreenQueryContext'
+import {
+  createMockUser,
+  createQueryClient,
+  createQueryOptions,
+  createWrapper,
+  delay,
+  suppressConsoleError,
+} from '~/test-utils/screen-query'
+
+describe('ScreenQueryProvider.stages', () => {
+  let queryClient: QueryClient
+  let renders: string[]
+  let queryError: ScreenQueryError | undefined
+
+  /**
+   * Screen loading the posts of a user once the user is loaded
+   */
+  const Screen = ({
+    fetchPosts,
+  }: {
+    fetchPosts: (userId: number) => Promise<string[]>
+  }) => {
+    const userOptions = createQueryOptions(['user'], createMockUser(7), {
+      delay: 10,
+    })
+    const user = useQuery(userOptions)
+    const { getQueryResult } = useScreenQueryContext()
+    try {
+      const [userData, posts] = getQueryResult(
+        [{ ...user, ...userOptions }],
+        ([userData]) => [
+          {
+            queryKey: ['posts', userData.id],
+            queryFn: () => fetchPosts(userData.id),
+          },
+        ],
+      )
+      expectTypeOf(posts).toEqualTypeOf<string[]>()
+      const content = `${userData.name}: ${posts.join(',')}`
+      renders.push(content)
+      return <div>{content}</div>
+    } catch (error) {
+      if (error instanceof ScreenQueryError) {
+        queryError = error
+        return <div>failed</div>
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Render the screen inside Suspense
+   */
+  const renderScreen = (fetchPosts: (userId: number) => Promise<string[]>) =>
+    render(
+      <Suspense fallback={<div>loading</div>}>
+        <Screen fetchPosts={fetchPosts} />
+      </Suspense>,
+      { wrapper: createWrapper(queryClient) },
+    )
+
+  beforeEach(() => {
+    // Suppress console.error including React 18 Suspense warnings
+    suppressConsoleError()
+    // Given: Initialize new QueryClient keeping the stage data cached between renders
+    queryClient = createQueryClient()
+    queryClient.setDefaultOptions({ queries: { retry: false } })
+    renders = []
+    queryError = undefined
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    // Cleanup after test
+    queryClient.clear()
+  })
+
+  describe('when a stage depends on the data of the results', () => {
+    it('should reveal the data of every stage at once', async () => {
+      // Given: Posts fetched with the id of the user
+      const fetchPosts = vi.fn(async (userId: number) => [`post of ${userId}`])
+
+      // When: Render the screen
+      renderScreen(fetchPosts)
+
+      // Then: The screen is only rendered once both stages are resolved
+      await screen.findByText('Test User: post of 7')
+      expect(fetchPosts).toHaveBeenCalledWith(7)
+      expect(renders.every((content) => content.includes('post of 7'))).toBe(
+        true,
+      )
+    })
+  })
+
+  describe('when a stage query is updated in the background', () => {
+    it('should reveal the new data', async () => {
+      // Given: A loaded screen whose stage query has settled
+      renderScreen(async (userId) => [`post of ${userId}`])
+      await screen.findByText('Test User: post of 7')
+      await act(() => delay(20))
+
+      // When: The posts are updated in the cache
+      act(() => {
+        queryClient.setQueryData(['posts', 7], ['new post'])
+      })
+
+      // Then: The screen shows the new posts
+      await screen.findByText('Test User: new post')
+    })
+  })
+
+  describe('when a stage query fails', () => {
+    it('should throw ScreenQueryError with the stage failure', async () => {
+      // Given: Posts failing to load
+      const postsError = new Error('Posts failed')
+
+      // When: Render the screen
+      renderScreen(() => Promise.reject(postsError))
+      await screen.findByText('failed')
+
+      // Then: The stage failure is thrown
+      expect(queryError?.failures).toEqual([
+        { queryKey: ['posts', 7], error: postsError, failureCount: 1 },
+      ])
+    })
+  })
+})
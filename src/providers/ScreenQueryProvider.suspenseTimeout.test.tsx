@@ -0,0 +1,162 @@
+import { type QueryClient, useQuery } from '@tanstack/react-query'
+import { render, screen } from '@testing-library/react'
+import { Suspense } from 'react'
+import { ScreenQueryTimeoutError } from '~/errors/ScreenQueryTimeoutError'
+import { useScreenQueryContext } from '~/hooks/useScreenQueryContext'
+import type { GetQueryResultOptions } from '~/providers/ScreenQueryProvider'
+import {
+  createQueryClient,
+  createQueryOptions,
+  createWrapper,
+  suppressConsoleError,
+} from '~/test-utils/screen-query'
+
+describe('ScreenQueryProvider.suspenseTimeout', () => {
+  let queryClient: QueryClient
+  let timeoutError: ScreenQueryTimeoutError | undefined
+
+  /**
+   * Screen rendering its query data, or the timeout error it caught
+   */
+  const Screen = ({
+    queryOptions,
+    options,
+  }: {
+    queryOptions: ReturnType<typeof createQueryOptions<string>>
+    options?: GetQueryResultOptions
+    attempt?: number
+  }) => {
+    const query = useQuery(queryOptions)
+    const { getQueryResult } = useScreenQueryContext()
+    try {
+      const [data] = getQueryResult([{ ...query, ...queryOptions }], options)
+      return <div>{data}</div>
+    } catch (error) {
+      if (error instanceof ScreenQueryTimeoutError) {
+        timeoutError = error
+        return <div>timed out</div>
+      }
+      throw error
+    }
+  }
+
+  beforeEach(() => {
+    // Suppress console.error including React 18 Suspense warnings
+    suppressConsoleError()
+    // Given: Initialize new QueryClient
+    queryClient = createQueryClient()
+    timeoutError = undefined
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    // Cleanup after test
+    queryClient.clear()
+  })
+
+  describe('when queries stay pending longer than the timeout', () => {
+    it('should throw ScreenQueryTimeoutError with the pending query keys', async () => {
+      // Given: A provider timeout and a permanently pending query
+      const queryOptions = createQueryOptions<string>(['hung'], undefined, {
+        isPending: true,
+      })
+      const wrapper = createWrapper(queryClient, { suspenseTimeout: 20 })
+
+      // When: Render the screen
+      render(
+        <Suspense fallback={<div>loading</div>}>
+          <Screen queryOptions={queryOptions} />
+        </Suspense>,
+        { wrapper },
+      )
+      expect(screen.getByText('loading')).toBeDefined()
+
+      // Then: The timeout error is thrown after the timeout
+      await screen.findByText('timed out')
+      expect(timeoutError?.queryKeys).toEqual([['hung']])
+      expect(timeoutError?.timeout).toBe(20)
+      expect(timeoutError?.message).toBe(
+        'Queries still pending after 20ms: ["hung"]',
+      )
+    })
+
+    it('should prefer the timeout passed to getQueryResult', async () => {
+      // Given: A long provider timeout and a short per-call timeout
+      const queryOptions = createQueryOptions<string>(
+        ['hung-call'],
+        undefined,
+        {
+          isPending: true,
+        },
+      )
+      const wrapper = createWrapper(queryClient, { suspenseTimeout: 60_000 })
+
+      // When: Render the screen with the per-call timeout
+      render(
+        <Suspense fallback={<div>loading</div>}>
+          <Screen
+            queryOptions={queryOptions}
+            options={{ suspenseTimeout: 20 }}
+          />
+        </Suspense>,
+        { wrapper },
+      )
+
+      // Then: The per-call timeout is used
+      await screen.findByText('timed out')
+      expect(timeoutError?.timeout).toBe(20)
+    })
+
+    it('should suspend again with a new timeout when retried', async () => {
+      // Given: A screen that has timed out
+      const queryOptions = createQueryOptions<string>(
+        ['hung-retry'],
+        undefined,
+        {
+          isPending: true,
+        },
+      )
+      const wrapper = createWrapper(queryClient, { suspenseTimeout: 20 })
+      const { rerender } = render(
+        <Suspense fallback={<div>loading</div>}>
+          <Screen queryOptions={queryOptions} attempt={1} />
+        </Suspense>,
+        { wrapper },
+      )
+      await screen.findByText('timed out')
+
+      // When: Render the screen again
+      rerender(
+        <Suspense fallback={<div>loading</div>}>
+          <Screen queryOptions={queryOptions} attempt={2} />
+        </Suspense>,
+      )
+
+      // Then: The screen suspends before timing out again
+      expect(screen.getByText('loading')).toBeDefined()
+      await screen.findByText('timed out')
+    })
+  })
+
+  describe('when queries settle before the timeout', () => {
+    it('should render the data', async () => {
+      // Given: A provider timeout longer than the query takes
+      const queryOptions = createQueryOptions(['in-time'], 'in-time-data', {
+        delay: 10,
+      })
+      const wrapper = createWrapper(queryClient, { suspenseTimeout: 1000 })
+
+      // When: Render the screen
+      render(
+        <Suspense fallback={<div>loading</div>}>
+          <Screen queryOptions={queryOptions} />
+        </Suspense>,
+        { wrapper },
+      )
+
+      // Then: The data is rendered without a timeout error
+      await screen.findByText('in-time-data')
+      expect(timeoutError).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,153 @@
+import { type QueryClient, useQuery } from '@tanstack/react-query'
+import { renderHook, waitFor } from '@testing-library/react'
+import { ScreenQueryError } from '~/errors/ScreenQueryError'
+import type {
+  GetQueryResultOptions,
+  ScreenQueryProviderProps,
+} from '~/providers/ScreenQueryProvider'
+import {
+  createMockUser,
+  createQueryClient,
+  createWrapper,
+  suppressConsoleError,
+  useTestScreenQueryContext,
+} from '~/test-utils/screen-query'
+
+describe('ScreenQueryProvider.throwOnError', () => {
+  let queryClient: QueryClient
+  const mockData = createMockUser(1, 'Cached User')
+
+  /**
+   * Put a query in error state, optionally retaining previously fetched data
+   */
+  const failQuery = async (
+    queryKey: string[],
+    error: Error,
+    data?: unknown,
+  ) => {
+    if (data !== undefined) {
+      queryClient.setQueryData(queryKey, data)
+    }
+    await queryClient
+      .fetchQuery({ queryKey, queryFn: () => Promise.reject(error) })
+      .catch(() => {})
+  }
+
+  /**
+   * Render getQueryResult for the failed query and report what it did
+   */
+  const renderResult = (
+    queryKey: string[],
+    providerProps?: Omit<ScreenQueryProviderProps, 'children'>,
+    options?: GetQueryResultOptions,
+  ) =>
+    renderHook(
+      () => {
+        // enabled: false so mounting does not refetch and clear the error state
+        const query = useQuery({
+          queryKey,
+          queryFn: () => Promise.resolve(mockData),
+          enabled: false,
+        })
+        const context = useTestScreenQueryContext()
+        try {
+          const [data] = context.getQueryResult(
+            [{ ...query, queryKey }],
+            options,
+          )
+          return { status: 'data', data }
+        } catch (error) {
+          if (error instanceof ScreenQueryError) {
+            return { status: 'error', error }
+          }
+          throw error
+        }
+      },
+      { wrapper: createWrapper(queryClient, providerProps) },
+    )
+
+  beforeEach(() => {
+    // Suppress console.error including React 18 Suspense warnings
+    suppressConsoleError()
+    // Given: Initialize new QueryClient
+    queryClient = createQueryClient()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    // Cleanup after test
+    queryClient.clear()
+  })
+
+  describe('when throwOnError is true', () => {
+    it('should throw even when the query has existing data', async () => {
+      // Given: A failed refetch retaining the previous data
+      await failQuery(['payment'], new Error('Refetch failed'), mockData)
+
+      // When: Get the result with throwOnError on the provider
+      const { result } = renderResult(['payment'], { throwOnError: true })
+
+      // Then: The error is thrown to the ErrorBoundary
+      await waitFor(() => {
+        expect(result.current.status).toBe('error')
+      })
+    })
+  })
+
+  describe('when throwOnError is false', () => {
+    it('should not throw even when the query has no data', async () => {
+      // Given: A failed query without data
+      await failQuery(['feed'], new Error('Fetch failed'))
+
+      // When: Get the result with throwOnError disabled for the call
+      const { result } = renderResult(
+        ['feed'],
+        { throwOnError: true },
+        { throwOnError: false },
+      )
+
+      // Then: The call option wins and no error is thrown
+      expect(result.current).toEqual({ status: 'data', data: undefined })
+    })
+  })
+
+  describe('when throwOnError is a function', () => {
+    it('should throw only when the function returns true', async () => {
+      // Given: A not found error and a server error
+      const notFound = Object.assign(new Error('Not found'), { status: 404 })
+      const serverError = Object.assign(new Error('Server error'), {
+        status: 500,
+      })
+      await failQuery(['missing'], notFound)
+      await failQuery(['broken'], serverError)
+      const throwOnError = vi.fn(
+        (error: Error) => (error as { status?: number }).status !== 404,
+      )
+
+      // When: Get the results with a policy ignoring not found errors
+      const missing = renderResult(['missing'], { throwOnError })
+      const broken = renderResult(['broken'], { throwOnError })
+
+      // Then: Only the server error is thrown, and the failed query is passed
+      expect(missing.result.current.status).toBe('data')
+      expect(broken.result.current.status).toBe('error')
+      expect(throwOnError).toHaveBeenCalledWith(
+        serverError,
+        queryClient.getQueryCache().find({ queryKey: ['broken'] }),
+      )
+    })
+  })
+
+  describe('when throwOnError is not set', () => {
+    it('should keep existing data of a failed refetch', async () => {
+      // Given: A failed refetch retaining the previous data
+      await failQuery(['stale'], new Error('Refetch failed'), mockData)
+
+      // When: Get the result without a policy
+      const { result } = renderResult(['stale'])
+
+      // Then: The existing data is returned
+      expect(result.current).toEqual({ status: 'data', data: mockData })
+    })
+  })
+})
@@ -1,13 +1,43 @@
 import {
+  type DataTag,
+  type DehydratedState,
+  defaultShouldDehydrateQuery,
+  dehydrate,
+  type FetchStatus,
+  focusManager,
+  InfiniteQueryObserver,
+  type InfiniteQueryObserverOptions,
+  matchQuery,
   notifyManager,
+  onlineManager,
+  partialMatchKey,
+  type Query,
   type QueryClient,
   type QueryKey,
   QueryObserver,
   type QueryObserverBaseResult,
+  type QueryObserverOptions,
+  type QueryStatus,
+  type SkipToken,
   useQueryClient,
 } from '@tanstack/react-query'
 import type React from 'react'
-import { createContext, useCallback, useEffect, useRef } from 'react'
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useId,
+  useMemo,
+  useReducer,
+  useRef,
+} from 'react'
+import {
+  ScreenQueryError,
+  type ScreenQueryFailure,
+} from '~/errors/ScreenQueryError'
+import { ScreenQueryTimeoutError } from '~/errors/ScreenQueryTimeoutError'
+import type { ScreenDefinition } from '~/screens/defineScreen'
 
 /**
  * Extended query result that includes the query key.
@@ -23,6 +53,41 @@ export type ScreenQueryResult<T = unknown, E = Error> = QueryObserverBaseResult<
 
 type ScreenQuery = {
   queryKey: QueryKey
+  /**
+   * Per-query hash function, as passed to useQuery (default: the QueryClient's)
+   */
+  queryKeyHashFn?(queryKey: QueryKey): string
+  /**
+   * If true, a failure of the query is returned instead of thrown (default: false)
+   */
+  optional?: boolean
+}
+
+/**
+ * Query result marked as optional.
+ * Its failure is returned as an OptionalQueryResult instead of being thrown to the ErrorBoundary.
+ * @template T - The type of data returned by the query
+ * @template E - The type of error returned by the query
+ */
+export type OptionalScreenQueryResult<
+  T = unknown,
+  E = Error,
+> = ScreenQueryResult<T, E> & { optional: true }
+
+/**
+ * Result returned by getQueryResult for an optional query.
+ * @template T - The type of data returned by the query
+ * @template E - The type of error returned by the query
+ */
+export type OptionalQueryResult<T = unknown, E = Error> = {
+  /**
+   * Data of the query, undefined if it failed without existing data
+   */
+  data?: T
+  /**
+   * Error of the query, undefined unless it is in error state
+   */
+  error?: E
 }
 
 /**
@@ -32,15 +97,246 @@ type ScreenQuery = {
  */
 export type ClearCacheStatus = 'error' | 'all'
 
+/**
+ * Policy deciding whether a failed query is thrown to the ErrorBoundary.
+ * - true: Throw on any error, even when the query still has data
+ * - false: Never throw, keep returning the existing data
+ * - function: Throw when it returns true for the error and the failed query
+ */
+export type ThrowOnError = boolean | ((error: Error, query: Query) => boolean)
+
+/**
+ * Source of focus or reconnect events, such as focusManager or onlineManager.
+ * The listener is called with true when the app gains focus or goes back online.
+ */
+export type ScreenQueryEventSource = {
+  subscribe: (listener: (active: boolean) => void) => () => void
+}
+
+/**
+ * Options for getQueryResult.
+ */
+export type GetQueryResultOptions = {
+  /**
+   * If true, throws Promise when observer is first created (default: false)
+   */
+  suspendOnCreate?: boolean
+  /**
+   * Name of the query group the queries belong to (default: 'default').
+   * Loading state is only synchronized with queries in the same group.
+   */
+  group?: string
+  /**
+   * Milliseconds to suspend before throwing ScreenQueryTimeoutError (default: the provider's suspenseTimeout)
+   */
+  suspenseTimeout?: number
+  /**
+   * Minimum milliseconds the fallback stays visible once shown (default: the provider's minPendingMs)
+   */
+  minPendingMs?: number
+  /**
+   * Milliseconds before the fallback is shown; queries settling sooner resolve immediately (default: the provider's pendingDelayMs)
+   */
+  pendingDelayMs?: number
+  /**
+   * Whether a failed query is thrown to the ErrorBoundary (default: the provider's throwOnError)
+   */
+  throwOnError?: ThrowOnError
+  /**
+   * Label listing the consumer in ScreenQueryDevtools while it is suspended (default: none).
+   * Consumers suspended before their first commit are rendered from scratch on each retry,
+   * so they have no other identity to show.
+   */
+  label?: string
+}
+
+/**
+ * Options for refetchQueries.
+ * Only registered queries matching every specified filter are refetched.
+ */
+export type RefetchQueriesOptions = {
+  /**
+   * Only refetch queries registered in this group (default: all groups)
+   */
+  group?: string
+  /**
+   * Only refetch queries whose key starts with one of these keys
+   */
+  queryKeys?: readonly QueryKey[]
+  /**
+   * Only refetch queries for which this returns true
+   */
+  predicate?: (query: Query) => boolean
+  /**
+   * 'stale' to refetch only stale queries, 'all' to refetch every match (default: 'all')
+   */
+  type?: 'stale' | 'all'
+  /**
+   * If true, cancels a fetch already in flight before refetching (default: true)
+   */
+  cancelRefetch?: boolean
+  /**
+   * If true, rejects with a ScreenQueryError listing the queries that failed to
+   * refetch, once every refetch has settled (default: false)
+   */
+  throwOnError?: boolean
+}
+
+/**
+ * How clearCache clears the targeted queries.
+ * 'reset': Reset to the initial state / 'remove': Remove from the cache / 'invalidate': Mark as stale and refetch
+ */
+export type ClearCacheMode = 'reset' | 'remove' | 'invalidate'
+
+/**
+ * Options for clearCache.
+ * Only registered queries matching every specified filter are cleared.
+ */
+export type ClearCacheOptions = {
+  /**
+   * Only clear queries registered in this group (default: all groups)
+   */
+  group?: string
+  /**
+   * Only clear queries whose key starts with one of these keys
+   */
+  queryKeys?: readonly QueryKey[]
+  /**
+   * Only clear queries for which this returns true
+   */
+  predicate?: (query: Query) => boolean
+  /**
+   * How the queries are cleared (default: 'reset')
+   */
+  mode?: ClearCacheMode
+}
+
+/**
+ * Query options passed to readQueries or returned by a dependent stage of getQueryResult.
+ * Not backed by a useQuery call, so the provider fetches them with these options.
+ * Options created with queryOptions() or infiniteQueryOptions() can be passed as is.
+ */
+export type ScreenQueryOptions = ScreenQuery & {
+  /**
+   * Function fetching the query data
+   */
+  queryFn?: unknown
+  /**
+   * Function transforming the query data
+   */
+  select?: unknown
+}
+
+/**
+ * Data returned by getQueryResult for each query result.
+ */
+type QueryResultData<T extends readonly ScreenQueryResult[]> = {
+  [K in keyof T]: T[K] extends OptionalScreenQueryResult<infer D, infer E>
+    ? OptionalQueryResult<D, E>
+    : T[K] extends ScreenQueryResult<infer D>
+      ? EnabledData<T[K], D>
+      : never
+}
+
+/**
+ * Data of a query, or undefined when the query may be disabled.
+ * Disabled queries (`enabled: false` or `skipToken`) are not waited for and return undefined.
+ */
+type EnabledData<Q, D> = Q extends { enabled: true }
+  ? D
+  : Q extends { enabled: unknown }
+    ? D | undefined
+    : Q extends { queryFn: infer F }
+      ? SkipToken extends F
+        ? D | undefined
+        : D
+      : D
+
+/**
+ * Data of query options, selected or as fetched.
+ */
+type QueryOptionsData<Q extends ScreenQueryOptions> = Q extends {
+  select?: (data: never) => infer D
+}
+  ? unknown extends D
+    ? QueryFnData<Q>
+    : D
+  : QueryFnData<Q>
+
+/**
+ * Data fetched for query options, from the DataTag of queryOptions() keys or as returned by queryFn.
+ */
+type QueryFnData<Q extends ScreenQueryOptions> = Q extends {
+  queryKey: DataTag<unknown, infer D, unknown>
+}
+  ? D
+  : Awaited<ReturnType<Extract<Q['queryFn'], (...args: never[]) => unknown>>>
+
+/**
+ * Data resolved for each query options, by a dependent stage of getQueryResult or useScreenQueries.
+ * @template S - The type of the query options
+ */
+export type ScreenQueryOptionsData<S extends readonly ScreenQueryOptions[]> = {
+  [K in keyof S]: S[K] extends { optional: true }
+    ? OptionalQueryResult<QueryOptionsData<S[K]>>
+    : EnabledData<S[K], QueryOptionsData<S[K]>>
+}
+
+/**
+ * Dependent stage of getQueryResult, returning the queries depending on the data.
+ */
+export type QueryStage = (data: unknown[]) => readonly ScreenQueryOptions[]
+
 /**
  * Function type for getting query results synchronously.
  * Throws Promise during loading, throws Error on error, returns data on success.
+ * Optional queries return their data and error instead of throwing.
+ * With a stage, queries depending on the data are resolved as well before returning.
+ */
+type GetQueryResult = {
+  <T extends readonly ScreenQueryResult[]>(
+    results: [...T],
+    options?: GetQueryResultOptions,
+  ): QueryResultData<T>
+  <
+    T extends readonly ScreenQueryResult[],
+    S extends readonly ScreenQueryOptions[],
+  >(
+    results: [...T],
+    stage: (data: QueryResultData<T>) => [...S],
+    options?: GetQueryResultOptions,
+  ): [...QueryResultData<T>, ...ScreenQueryOptionsData<S>]
+}
+
+/**
+ * Function type for getting the data of query options synchronously.
+ * Synchronizes like GetQueryResult, but the provider observes the queries with the given options.
+ */
+type ReadQueries = <const T extends readonly ScreenQueryOptions[]>(
+  queries: T,
+  options?: GetQueryResultOptions,
+) => ScreenQueryOptionsData<T>
+
+/**
+ * Query result returned by getQueryResults.
+ * Data is guaranteed to be defined unless the query is optional.
+ * @template R - The type of the query result passed to getQueryResults
+ */
+export type SynchronizedQueryResult<R extends ScreenQueryResult> = R extends {
+  optional: true
+}
+  ? R
+  : R & { data: EnabledData<R, Exclude<R['data'], undefined>> }
+
+/**
+ * Function type for getting full query results synchronously.
+ * Synchronizes like GetQueryResult, but returns the query result objects instead of their data.
  */
-type GetQueryResult = <T extends readonly ScreenQueryResult[]>(
+type GetQueryResults = <T extends readonly ScreenQueryResult[]>(
   results: [...T],
-  options?: { suspendOnCreate?: boolean },
+  options?: GetQueryResultOptions,
 ) => {
-  [K in keyof T]: T[K] extends ScreenQueryResult<infer D> ? D : never
+  [K in keyof T]: SynchronizedQueryResult<T[K]>
 }
 
 /**
@@ -54,23 +350,55 @@ export type ScreenQueryContextValue = {
    * @param results - Array of query results to fetch
    * @param options - Optional configuration
    * @param options.suspendOnCreate - If true, throws Promise when observer is first created (default: false)
+   * @param options.group - Query group to synchronize with (default: 'default')
    * @throws {Promise} During loading state (handled by Suspense)
-   * @throws {Error} When query has error (handled by ErrorBoundary)
-   * @returns Array of query data in the same order as input
+   * @throws {ScreenQueryError} When queries have errors (handled by ErrorBoundary)
+   * @returns Array of query data in the same order as input, with data and error for optional queries
    */
   getQueryResult: GetQueryResult
   /**
-   * Refetch all registered queries with batched notifications.
+   * Synchronously get full results from multiple queries.
+   * Suspends and throws like getQueryResult, but returns the query result objects,
+   * so fetching state such as isFetching or isRefetchError stays available.
+   * @param results - Array of query results to fetch
+   * @param options - Optional configuration, same as getQueryResult
+   * @throws {Promise} During loading state (handled by Suspense)
+   * @throws {ScreenQueryError} When queries have errors (handled by ErrorBoundary)
+   * @returns Array of query results in the same order as input, with data defined unless optional
+   */
+  getQueryResults: GetQueryResults
+  /**
+   * Synchronously get data from multiple query options, without calling useQuery first.
+   * Suspends and throws like getQueryResult, with Observers created from the full options.
+   * @param queries - Array of query options, e.g. created with queryOptions()
+   * @param options - Optional configuration, same as getQueryResult
+   * @throws {Promise} During loading state (handled by Suspense)
+   * @throws {ScreenQueryError} When queries have errors (handled by ErrorBoundary)
+   * @returns Array of query data in the same order as input, with data and error for optional queries
+   */
+  readQueries: ReadQueries
+  /**
+   * Refetch registered queries with batched notifications.
    * Prevents partial UI updates by batching all refetch notifications.
+   * @param options - Group name, or filters for the queries to refetch (default: all queries)
    * @returns Promise that resolves when all queries are refetched
+   * @throws {ScreenQueryError} When `throwOnError` is set and queries failed to refetch
    */
-  refetchQueries: () => Promise<void>
+  refetchQueries: (options?: string | RefetchQueriesOptions) => Promise<void>
   /**
-   * Clear query cache and reset observers based on status.
+   * Clear query cache and reset observers of the cleared queries.
    * @param status - 'error' to clear only error queries, 'all' to clear everything
+   * @param options - Optional configuration
+   * @param options.group - Only clear queries in this group (default: all groups)
+   * @param options.queryKeys - Only clear queries whose key starts with one of these keys
+   * @param options.predicate - Only clear queries for which this returns true
+   * @param options.mode - 'reset', 'remove' or 'invalidate' (default: 'reset')
    * @returns Promise that resolves when cache is cleared
    */
-  clearCache: (status: ClearCacheStatus) => Promise<void>
+  clearCache: (
+    status: ClearCacheStatus,
+    options?: ClearCacheOptions,
+  ) => Promise<void>
 }
 
 /**
@@ -82,6 +410,277 @@ export const ScreenQueryContext = createContext<
   ScreenQueryContextValue | undefined
 >(undefined)
 
+/**
+ * Queries registered by an owner, keyed by group and then by key string.
+ */
+type QueryRegistrations = Map<string, Map<string, ScreenQuery>>
+
+/**
+ * Queries of one getQueryResult call, whose consumers suspend on the same Promise.
+ */
+type QuerySet = {
+  /** Key generated from the group and the key strings */
+  key: string
+  group: string
+  keyStrings: readonly string[]
+}
+
+/**
+ * Component that registers queries through useScreenQueryContext.
+ * Queries used during render are only retained once the render is committed,
+ * and are released when the component stops using them or unmounts.
+ */
+export type QueryOwner = {
+  /** Queries registered during the latest render */
+  rendered: QueryRegistrations
+  /** Queries retained by the latest committed render */
+  committed: QueryRegistrations
+  /** Queries registered by every render since the latest commit, retained by nobody yet */
+  uncommitted: QueryRegistrations
+}
+
+/**
+ * Internal registry API used by useScreenQueryContext to tie query
+ * registration to the lifecycle of the consuming component.
+ */
+export type ScreenQueryRegistry = {
+  /**
+   * getQueryResult that registers queries on behalf of an owner
+   */
+  getQueryResult: (
+    results: readonly ScreenQueryResult[],
+    options: GetQueryResultOptions | undefined,
+    owner: QueryOwner,
+    stage?: QueryStage,
+  ) => unknown[]
+  /**
+   * readQueries that registers queries on behalf of an owner
+   */
+  readQueries: (
+    queries: readonly ScreenQueryOptions[],
+    options: GetQueryResultOptions | undefined,
+    owner: QueryOwner,
+  ) => unknown[]
+  /**
+   * getQueryResults that registers queries on behalf of an owner
+   */
+  getQueryResults: (
+    results: readonly ScreenQueryResult[],
+    options: GetQueryResultOptions | undefined,
+    owner: QueryOwner,
+  ) => ScreenQueryResult[]
+  /**
+   * Retain the queries of the owner's latest render and release the rest
+   */
+  commit: (owner: QueryOwner) => void
+  /**
+   * Release every query retained by the owner
+   */
+  release: (owner: QueryOwner) => void
+  /**
+   * Milliseconds left until a fallback should be shown in the current pending period
+   */
+  getRemainingPendingDelay: (pendingDelayMs?: number) => number
+  /**
+   * Promise waiting for the query sets currently suspended, undefined if none is
+   */
+  getPendingPromise: (
+    group?: string,
+    keyStrings?: ReadonlySet<string>,
+  ) => Promise<void> | undefined
+  /**
+   * Claim the queries registered on the server since the previous claim
+   */
+  claimQueries: (claimId: string, group?: string) => ReadonlySet<string>
+  /**
+   * Dehydrate the settled queries registered in the provider that were not dehydrated yet
+   */
+  dehydrateQueries: (
+    keyStrings?: ReadonlySet<string>,
+  ) => DehydratedState | undefined
+  /**
+   * Identity of the provider, stable while it is mounted
+   */
+  id: string
+  /**
+   * Name of the provider, targeted by useScreenQueryContext(name)
+   */
+  name: string | undefined
+  /**
+   * Registry of the nearest ancestor provider
+   */
+  parent: ScreenQueryRegistry | undefined
+  /**
+   * Register a descendant provider, so operations cascade to it
+   * @returns Function that unregisters it
+   */
+  addChild: (child: ScreenQueryRegistry) => () => void
+  /**
+   * Refetch the queries of the provider and its descendants, holding back their data
+   * until the returned release function is called
+   */
+  refetchHeldQueries: (
+    options?: string | RefetchQueriesOptions,
+  ) => Promise<HeldRefetch>
+  /**
+   * refetchQueries of the provider, cascading to its descendants
+   */
+  refetchQueries: ScreenQueryContextValue['refetchQueries']
+  /**
+   * clearCache of the provider, cascading to its descendants
+   */
+  clearCache: ScreenQueryContextValue['clearCache']
+  /**
+   * Snapshot the state of the provider and its descendants
+   */
+  getSnapshot: () => ScreenQueryProviderSnapshot
+}
+
+/**
+ * State of a query registered in a provider, as listed by ScreenQueryDevtools.
+ */
+export type ScreenQuerySnapshot = {
+  /**
+   * Query hash the query is registered with
+   */
+  keyString: string
+  queryKey: QueryKey
+  /**
+   * Groups the query is registered in
+   */
+  groups: string[]
+  /**
+   * Number of consumers retaining the query
+   */
+  owners: number
+  status: QueryStatus
+  fetchStatus: FetchStatus
+  /**
+   * Whether consumers are kept on the previously revealed data
+   */
+  held: boolean
+  /**
+   * Refetch the query through refetchQueries
+   */
+  refetch: () => Promise<void>
+  /**
+   * Reset the query through clearCache
+   */
+  clear: () => Promise<void>
+}
+
+/**
+ * Query set consumers are suspended on, as listed by ScreenQueryDevtools.
+ * A query set is made of the queries of one getQueryResult call.
+ */
+export type ScreenQueryPendingSnapshot = {
+  querySetKey: string
+  /**
+   * Group the suspended consumers are synchronized with
+   */
+  group: string
+  /**
+   * Query hashes of the queries of the suspended consumers
+   */
+  keyStrings: string[]
+  /**
+   * Labels of the suspended consumers that were given one
+   */
+  consumers: string[]
+  /**
+   * Query hashes of the queries the combined Promise waits for
+   */
+  waitingFor: string[]
+}
+
+/**
+ * State of a mounted provider, as listed by ScreenQueryDevtools.
+ */
+export type ScreenQueryProviderSnapshot = {
+  /**
+   * Identity of the provider, stable while it is mounted
+   */
+  id: string
+  name: string | undefined
+  queries: ScreenQuerySnapshot[]
+  pending: ScreenQueryPendingSnapshot[]
+  /**
+   * Snapshots of the nested providers
+   */
+  children: ScreenQueryProviderSnapshot[]
+}
+
+/**
+ * Refetch whose data is held back until released.
+ */
+type HeldRefetch = {
+  /**
+   * Reveal the refetched data of the provider and its descendants
+   */
+  release: () => void
+  /**
+   * Queries that failed to refetch
+   */
+  failures: ScreenQueryFailure[]
+}
+
+/**
+ * Internal React Context providing the registry of ScreenQueryProvider.
+ */
+export const ScreenQueryRegistryContext = createContext<
+  ScreenQueryRegistry | undefined
+>(undefined)
+
+/**
+ * Root providers mounted with each QueryClient, listed by ScreenQueryDevtools
+ */
+const rootRegistries = new WeakMap<QueryClient, Set<ScreenQueryRegistry>>()
+
+/**
+ * Get the registries of the root providers mounted with a QueryClient
+ * @param queryClient - QueryClient the providers use
+ * @returns Registries in mount order
+ */
+export function getRootRegistries(queryClient: QueryClient) {
+  return [...(rootRegistries.get(queryClient) ?? [])]
+}
+
+/**
+ * Create an owner with no registered queries
+ * @returns New QueryOwner
+ */
+export function createQueryOwner(): QueryOwner {
+  return { rendered: new Map(), committed: new Map(), uncommitted: new Map() }
+}
+
+/**
+ * Group that queries belong to when getQueryResult is called without a group
+ */
+const DEFAULT_GROUP = 'default'
+
+/**
+ * Owner of queries registered through ScreenQueryContext directly.
+ * Never released, so those queries are kept until the provider unmounts.
+ */
+const PERSISTENT_OWNER = createQueryOwner()
+
+/**
+ * Add a query to registrations
+ * @param registrations - Registrations to add to
+ * @param group - Group of the query
+ * @param keyString - Key string of the query
+ * @param query - Query to add
+ */
+function addRegistration(
+  registrations: QueryRegistrations,
+  group: string,
+  keyString: string,
+  query: ScreenQuery,
+) {
+  const groupQueries = registrations.get(group) ?? new Map()
+  registrations.set(group, groupQueries.set(keyString, query))
+}
+
 /**
  * Create a QueryObserver
  * Inherits existing query configuration if available
@@ -89,19 +688,67 @@ export const ScreenQueryContext = createContext<
  * @param query - Query to observe
  * @returns New QueryObserver
  */
-function createObserver(queryClient: QueryClient, query: ScreenQuery) {
-  const existingQuery = queryClient.getQueryCache().find({
-    queryKey: query.queryKey,
-    exact: true,
-  })
+function createObserver(
+  queryClient: QueryClient,
+  query: ScreenQuery,
+  keyString: string,
+) {
+  const existingQuery = queryClient.getQueryCache().get(keyString)
 
   // Create new Observer
   return new QueryObserver(queryClient, {
     ...existingQuery?.options, // Inherit existing query configuration
     queryKey: query.queryKey,
+    queryHash: keyString,
   })
 }
 
+/**
+ * Create a QueryObserver with the full options of a query
+ * Infinite query options get an InfiniteQueryObserver
+ * @param queryClient - TanStack Query's QueryClient
+ * @param query - Options of the query to observe
+ * @param keyString - Key string of the query
+ * @returns New QueryObserver
+ */
+function createOptionsObserver(
+  queryClient: QueryClient,
+  query: ScreenQueryOptions,
+  keyString: string,
+): QueryObserver {
+  const options = { ...query, queryHash: keyString }
+  return 'initialPageParam' in query
+    ? (new InfiniteQueryObserver(
+        queryClient,
+        options as InfiniteQueryObserverOptions,
+      ) as unknown as QueryObserver)
+    : new QueryObserver(queryClient, options as QueryObserverOptions)
+}
+
+/**
+ * Check whether a query result belongs to a disabled query
+ * Disabled queries (`enabled: false` or `skipToken`) stay pending without fetching
+ * @param result - Query result to check
+ * @returns true if the query is pending and not fetching
+ */
+function isDisabledResult(result: QueryObserverBaseResult) {
+  return result.isPending && result.fetchStatus === 'idle'
+}
+
+/**
+ * Check whether an Observer is enabled by its options
+ * @param observer - Observer to check
+ * @returns false if `enabled` resolves to false (also set for `skipToken`)
+ */
+function isEnabledObserver(observer: QueryObserver) {
+  const { enabled } = observer.options
+  const resolved =
+    typeof enabled === 'function'
+      ? enabled(observer.getCurrentQuery())
+      : enabled
+  return resolved !== false
+}
+
 /**
  * Check loading state of multiple Observers
  * @param observers - Array of Observers to check
@@ -111,23 +758,52 @@ function checkLoadingState(observers: QueryObserver[]) {
   return observers.some((observer) => observer.getCurrentResult().isPending)
 }
 
+/**
+ * Check whether the query of any Observer is fetching
+ * Paused queries are not waited for, as they may stay paused until reconnecting
+ * @param observers - Observers to check
+ * @returns true if any query is fetching
+ */
+function checkFetchingState(observers: Iterable<QueryObserver>) {
+  return [...observers].some(
+    (observer) => observer.getCurrentQuery().state.fetchStatus === 'fetching',
+  )
+}
+
 /**
  * Generate unique key string from query
+ * Hashed the same way the QueryClient does, so it matches the cached query's hash
+ * @param queryClient - QueryClient providing the default queryKeyHashFn
  * @param query - Query to convert
- * @returns JSON stringified key
+ * @returns Query hash
  */
-function getQueryKeyString(query: ScreenQuery) {
-  return JSON.stringify(query.queryKey)
+function getQueryKeyString(queryClient: QueryClient, query: ScreenQuery) {
+  return queryClient.defaultQueryOptions({
+    queryKey: query.queryKey,
+    ...(query.queryKeyHashFn && { queryKeyHashFn: query.queryKeyHashFn }),
+  }).queryHash
 }
 
 /**
  * Generate unique set key from multiple queries
  * Used as identifier for Promise management
- * @param queries - Array of queries
- * @returns Sorted pipe-delimited string
+ * @param group - Group the queries are synchronized with
+ * @param keyStrings - Key strings of the queries
+ * @returns Group name followed by sorted pipe-delimited string
+ */
+function generateQuerySetKey(group: string, keyStrings: readonly string[]) {
+  return `${group}:${[...keyStrings].sort().join('|')}`
+}
+
+/**
+ * Get keys of queries still pending
+ * @param observers - Array of Observers to check
+ * @returns Query keys of pending Observers
  */
-function generateQuerySetKey(queries: readonly ScreenQuery[]) {
-  return queries.map(getQueryKeyString).sort().join('|')
+function getPendingQueryKeys(observers: QueryObserver[]) {
+  return observers
+    .filter((observer) => observer.getCurrentResult().isPending)
+    .map((observer) => observer.getCurrentQuery().queryKey)
 }
 
 /**
@@ -148,225 +824,1169 @@ function createObserverPromise(observer: QueryObserver) {
           resolve()
         }
       })
-    }
-  })
-}
-
-/**
- * Get query error from Observers or query results.
- * Checks both sources to find any existing error.
- *
- * Only errors without existing data are returned, mirroring the default
- * `throwOnError` of useSuspenseQuery/useSuspenseInfiniteQuery
- * (`query.state.data === undefined`). This keeps partial data visible when a
- * refetch or fetchNextPage fails, instead of tearing down the screen via the
- * ErrorBoundary.
- * @param observers - Array of QueryObservers to check
- * @param results - Array of QueryObserverBaseResult to check
- * @returns The first error found, or undefined if no errors
- */
-function getQueryError(
-  observers: readonly QueryObserver[],
-  results: readonly QueryObserverBaseResult[],
-) {
-  return (
-    observers
-      .map((observer) => observer.getCurrentResult())
-      .find((result) => result.isError && result.data === undefined)?.error ??
-    results.find((q) => q.isError && q.data === undefined)?.error
+    }
+  })
+}
+
+/**
+ * Get query failures from Observers or query results.
+ * Checks both sources of each query to find any existing error.
+ * Optional queries are skipped, as their failures are returned instead.
+ *
+ * Without a throwOnError policy, only errors without existing data are returned,
+ * mirroring the default `throwOnError` of useSuspenseQuery/useSuspenseInfiniteQuery
+ * (`query.state.data === undefined`). This keeps partial data visible when a
+ * refetch or fetchNextPage fails, instead of tearing down the screen via the
+ * ErrorBoundary.
+ * @param observers - Array of QueryObservers, in the same order as results
+ * @param results - Array of query results to check
+ * @param throwOnError - Policy deciding which errors are returned
+ * @returns Failures of every failed query, in the order of results
+ */
+function getQueryFailures(
+  observers: readonly QueryObserver[],
+  results: readonly ScreenQueryResult[],
+  throwOnError: ThrowOnError | undefined,
+): ScreenQueryFailure[] {
+  return results.flatMap((q, index) => {
+    if (q.optional) {
+      return []
+    }
+    const observer = observers[index]
+    const failed = [observer.getCurrentResult(), q].find(
+      (result) =>
+        result.isError &&
+        (throwOnError !== undefined || result.data === undefined),
+    )
+    if (!failed?.error) {
+      return []
+    }
+    const shouldThrow =
+      typeof throwOnError === 'function'
+        ? throwOnError(failed.error, observer.getCurrentQuery())
+        : (throwOnError ?? true)
+    return shouldThrow
+      ? [
+          {
+            queryKey: q.queryKey,
+            error: failed.error,
+            failureCount: failed.failureCount,
+          },
+        ]
+      : []
+  })
+}
+
+/**
+ * Get the data getQueryResult returns for a query result
+ * @param result - Query result to get the data of
+ * @returns Data, or data and error for optional queries
+ */
+function getQueryData({ optional, data, isError, error }: ScreenQueryResult) {
+  if (!optional) {
+    return data
+  }
+  // Optional queries return their failure instead of throwing it
+  return isError ? { data, error } : { data }
+}
+
+/**
+ * Props for ScreenQueryProvider.
+ * @template P - The type of the params of the screen
+ */
+export type ScreenQueryProviderProps<P = unknown> = {
+  /**
+   * Child components to wrap
+   */
+  children: React.ReactNode
+  /**
+   * Screen whose queries are observed from the first render, so prefetched
+   * queries are revealed without suspending (default: none)
+   */
+  screen?: ScreenDefinition<P>
+  /**
+   * Params passed to the queries of the screen
+   */
+  params?: P
+  /**
+   * Milliseconds to suspend before getQueryResult throws ScreenQueryTimeoutError.
+   * Can be overridden per getQueryResult call (default: no timeout)
+   */
+  suspenseTimeout?: number
+  /**
+   * Minimum milliseconds the Suspense fallbacks stay visible once shown, so they don't flash.
+   * Can be overridden per getQueryResult call (default: 0)
+   */
+  minPendingMs?: number
+  /**
+   * Milliseconds before ScreenQueryFallback shows the fallback. Queries settling sooner
+   * resolve without waiting for minPendingMs. Can be overridden per getQueryResult call (default: 0)
+   */
+  pendingDelayMs?: number
+  /**
+   * Whether a failed query is thrown to the ErrorBoundary.
+   * Can be overridden per getQueryResult call (default: only errors without existing data)
+   */
+  throwOnError?: ThrowOnError
+  /**
+   * If true, refetches the stale registered queries when the app gains focus,
+   * revealing them together like refetchQueries (default: false)
+   */
+  refetchOnFocus?: boolean
+  /**
+   * If true, refetches the stale registered queries when the app goes back online,
+   * revealing them together like refetchQueries (default: false)
+   */
+  refetchOnReconnect?: boolean
+  /**
+   * Source of the focus events for refetchOnFocus (default: focusManager)
+   */
+  focusSource?: ScreenQueryEventSource
+  /**
+   * Source of the reconnect events for refetchOnReconnect (default: onlineManager)
+   */
+  reconnectSource?: ScreenQueryEventSource
+  /**
+   * Milliseconds between refetches of all registered queries, driven by a single timer
+   * and revealed together. Ticks are skipped while focusManager reports the app
+   * unfocused or a refetch is still in progress (default: no polling)
+   */
+  refetchInterval?: number
+  /**
+   * If true, data updates of any source (background refetches, setQueryData,
+   * invalidation) are only revealed once no registered query is fetching, so
+   * consumers always see one consistent generation of data (default: false)
+   */
+  atomic?: boolean
+  /**
+   * Name of the provider, so descendants can target it with useScreenQueryContext(name)
+   */
+  name?: string
+  /**
+   * If true, getQueryResult keeps suspending while the parent provider has
+   * suspended queries, so this provider is revealed after its parent (default: false)
+   */
+  waitForParent?: boolean
+}
+
+/**
+ * Provider component that manages query states with React Suspense/ErrorBoundary.
+ * Prevents partial UI updates and screen flickering by synchronizing multiple queries.
+ *
+ * @example
+ * ```tsx
+ * <QueryClientProvider client={queryClient}>
+ *   <ScreenQueryProvider>
+ *     <App />
+ *   </ScreenQueryProvider>
+ * </QueryClientProvider>
+ * ```
+ *
+ * @param props - Component props
+ * @param props.children - Child components to wrap
+ * @param props.screen - Screen whose queries are observed from the first render (default: none)
+ * @param props.params - Params passed to the queries of the screen
+ * @param props.suspenseTimeout - Milliseconds to suspend before throwing ScreenQueryTimeoutError (default: no timeout)
+ * @param props.minPendingMs - Minimum milliseconds the fallbacks stay visible once shown (default: 0)
+ * @param props.pendingDelayMs - Milliseconds before the fallbacks are shown (default: 0)
+ * @param props.throwOnError - Whether a failed query is thrown to the ErrorBoundary (default: only errors without existing data)
+ * @param props.refetchOnFocus - Refetch the stale queries together when the app gains focus (default: false)
+ * @param props.refetchOnReconnect - Refetch the stale queries together when the app goes back online (default: false)
+ * @param props.focusSource - Source of the focus events (default: focusManager)
+ * @param props.reconnectSource - Source of the reconnect events (default: onlineManager)
+ * @param props.refetchInterval - Milliseconds between refetches of all registered queries (default: no polling)
+ * @param props.atomic - Reveal data updates only once no registered query is fetching (default: false)
+ * @param props.name - Name targeted by useScreenQueryContext(name) in descendants (default: none)
+ * @param props.waitForParent - Suspend until the parent provider has no suspended queries (default: false)
+ */
+export function ScreenQueryProvider<P>({
+  children,
+  screen,
+  params,
+  suspenseTimeout: defaultSuspenseTimeout,
+  minPendingMs: defaultMinPendingMs = 0,
+  pendingDelayMs: defaultPendingDelayMs = 0,
+  throwOnError: defaultThrowOnError,
+  refetchOnFocus = false,
+  refetchOnReconnect = false,
+  focusSource = focusManager,
+  reconnectSource = onlineManager,
+  refetchInterval,
+  atomic = false,
+  name,
+  waitForParent = false,
+}: ScreenQueryProviderProps<P>) {
+  const queryClient = useQueryClient()
+  const id = useId()
+  const parent = useContext(ScreenQueryRegistryContext)
+  // Re-render consumers when the parent reveals, as they may read its queries by name
+  useContext(ScreenQueryContext)
+  const queriesRef = useRef<Map<string, ScreenQuery>>(new Map())
+  const observersRef = useRef<Map<string, QueryObserver>>(new Map())
+  const groupsRef = useRef<Map<string, Map<string, Set<QueryOwner>>>>(new Map())
+  const queryPromiseRef = useRef<
+    Map<
+      string,
+      {
+        promise: Promise<void>
+        wake: () => void
+        querySet: QuerySet
+        observers: readonly QueryObserver[]
+        consumers: Set<string>
+      }
+    >
+  >(new Map())
+  const holdsRef = useRef<Set<ReadonlySet<string>>>(new Set())
+  const timedOutRef = useRef<Map<string, number>>(new Map())
+  const pendingSinceRef = useRef(0)
+  const revealedRef = useRef<WeakMap<QueryOwner, Map<string, unknown>>>(
+    new WeakMap(),
+  )
+  const disabledRef = useRef<WeakSet<QueryObserver>>(new WeakSet())
+  const screenOwnerRef = useRef<QueryOwner>(createQueryOwner())
+  const dehydratedRef = useRef<Set<string>>(new Set())
+  const atomicHeldRef = useRef(false)
+  const childrenRef = useRef<Set<ScreenQueryRegistry>>(new Set())
+  const orphanedRef = useRef<QueryRegistrations>(new Map())
+  const staleOrphanedRef = useRef<QueryRegistrations>(new Map())
+  const subscribedRef = useRef<WeakSet<QueryObserver>>(new WeakSet())
+  const unclaimedRef = useRef<QueryRegistrations>(new Map())
+  const claimsRef = useRef<Map<string, Set<string>>>(new Map())
+  const [, reveal] = useReducer((revision: number) => revision + 1, 0)
+
+  /**
+   * Get entries of a Map whose key strings are registered in a group
+   * @param map - Map keyed by query key string
+   * @param group - Group name, or undefined for all groups
+   * @returns Array of values in the group
+   */
+  const getGroupValues = useCallback(
+    <V,>(map: Map<string, V>, group?: string) =>
+      [...map]
+        .filter(
+          ([keyString]) =>
+            group === undefined || groupsRef.current.get(group)?.has(keyString),
+        )
+        .map(([, value]) => value),
+    [],
+  )
+
+  /**
+   * Add a query to a group, optionally retained by an owner
+   * A group membership without owners is kept until it is released by an owner
+   * @param group - Group to add the query to
+   * @param keyString - Key string of the query
+   * @param query - Query to add
+   * @param owner - Owner retaining the query
+   */
+  const addGroupMember = useCallback(
+    (
+      group: string,
+      keyString: string,
+      query: ScreenQuery,
+      owner?: QueryOwner,
+    ) => {
+      const members = groupsRef.current.get(group) ?? new Map()
+      const owners = members.get(keyString) ?? new Set<QueryOwner>()
+      groupsRef.current.set(group, members.set(keyString, owners))
+      if (owner) {
+        owners.add(owner)
+      }
+
+      // Save query to Map
+      queriesRef.current.set(keyString, query)
+    },
+    [],
+  )
+
+  /**
+   * Resolve all pending Promises so suspended components re-render
+   * Used when Observers they may be waiting on are destroyed
+   */
+  const wakeSuspended = useCallback(() => {
+    queryPromiseRef.current.forEach(({ wake }) => {
+      wake()
+    })
+    queryPromiseRef.current.clear()
+  }, [])
+
+  /**
+   * Release queries retained by an owner
+   * Queries no longer in any group are dropped and their Observers destroyed
+   * @param owner - Owner releasing the queries
+   * @param registrations - Queries to release
+   */
+  const releaseQueries = useCallback(
+    (owner: QueryOwner, registrations: QueryRegistrations) => {
+      let dropped = false
+      registrations.forEach((queries, group) => {
+        const members = groupsRef.current.get(group)
+        queries.forEach((_, keyString) => {
+          const owners = members?.get(keyString)
+          owners?.delete(owner)
+          if (owners?.size === 0) {
+            members?.delete(keyString)
+          }
+          // Forget the data revealed to the owner once it no longer uses the query
+          if (
+            ![...groupsRef.current.values()].some((members) =>
+              members.get(keyString)?.has(owner),
+            )
+          ) {
+            revealedRef.current.get(owner)?.delete(keyString)
+          }
+
+          // Keep queries that are still used by another group
+          if (
+            [...groupsRef.current.values()].some((members) =>
+              members.has(keyString),
+            )
+          ) {
+            return
+          }
+          queriesRef.current.delete(keyString)
+          observersRef.current.get(keyString)?.destroy()
+          observersRef.current.delete(keyString)
+          dropped = true
+        })
+      })
+
+      if (dropped) {
+        wakeSuspended()
+      }
+    },
+    [wakeSuspended],
+  )
+
+  /**
+   * Subscribe to an Observer read through readQueries, unless already subscribed
+   * No useQuery observes its query, so the subscription keeps it cached and
+   * re-renders the consumers when its data changes, until the Observer is destroyed
+   * once released. Held and atomic data is kept back by getQueryResult like for
+   * any other query.
+   * @param keyString - Key string of the query
+   * @param observer - Observer to subscribe to
+   */
+  const subscribeReadObserver = useCallback(
+    (keyString: string, observer: QueryObserver) => {
+      if (subscribedRef.current.has(observer)) {
+        return
+      }
+      subscribedRef.current.add(observer)
+
+      let { data, error, status } = observer.getCurrentResult()
+      observer.subscribe((result) => {
+        // Fetch status changes alone leave the revealed data as is
+        if (
+          result.data === data &&
+          result.error === error &&
+          result.status === status
+        ) {
+          return
+        }
+        ;({ data, error, status } = result)
+        // Suspended renders are woken by their Promise instead
+        if (
+          [...groupsRef.current.values()].some(
+            (members) => (members.get(keyString)?.size ?? 0) > 0,
+          )
+        ) {
+          reveal()
+        }
+      })
+    },
+    [],
   )
-}
 
-/**
- * Provider component that manages query states with React Suspense/ErrorBoundary.
- * Prevents partial UI updates and screen flickering by synchronizing multiple queries.
- *
- * @example
- * ```tsx
- * <QueryClientProvider client={queryClient}>
- *   <ScreenQueryProvider>
- *     <App />
- *   </ScreenQueryProvider>
- * </QueryClientProvider>
- * ```
- *
- * @param props - Component props
- * @param props.children - Child components to wrap
- */
-export function ScreenQueryProvider({
-  children,
-}: {
-  children: React.ReactNode
-}) {
-  const queryClient = useQueryClient()
-  const queriesRef = useRef<Map<string, ScreenQuery>>(new Map())
-  const observersRef = useRef<Map<string, QueryObserver>>(new Map())
-  const queryPromiseRef = useRef<Map<string, Promise<void>>>(new Map())
+  /**
+   * Take the queries left without owners by suspended renders
+   * Queries are only taken on the second commit after they were left, giving the
+   * woken render the time to register them again
+   * @returns Registrations to release, with no owner retaining them
+   */
+  const takeOrphaned = useCallback(() => {
+    const orphaned = staleOrphanedRef.current
+    staleOrphanedRef.current = orphanedRef.current
+    orphanedRef.current = new Map()
+    return orphaned
+  }, [])
 
   /**
    * Register queries and Observers or get existing ones
+   * With full query options, existing Observers are updated with them
    * @param queries - Array of queries to register
+   * @param group - Group to register the queries in
+   * @param owner - Owner registering the queries
+   * @param withOptions - If true, the queries carry their full options
    * @returns Registration result for each query (creation flag and Observer)
    */
   const registerQueriesAndObservers = useCallback(
-    (queries: readonly ScreenQuery[]) => {
+    (
+      queries: readonly ScreenQueryOptions[],
+      group: string,
+      owner: QueryOwner,
+      withOptions = false,
+    ) => {
       return queries.map((query) => {
-        const keyString = getQueryKeyString(query)
+        const keyString = getQueryKeyString(queryClient, query)
 
-        // Save query to Map
-        queriesRef.current.set(keyString, query)
+        if (owner === PERSISTENT_OWNER) {
+          addGroupMember(group, keyString, query, owner)
+        } else {
+          // Retained once the owner's render is committed
+          addGroupMember(group, keyString, query)
+          addRegistration(owner.rendered, group, keyString, query)
+          addRegistration(owner.uncommitted, group, keyString, query)
+        }
+        orphanedRef.current.get(group)?.delete(keyString)
+        staleOrphanedRef.current.get(group)?.delete(keyString)
+        // Claimed by the next ScreenQueryHydration rendered on the server
+        if (typeof window === 'undefined') {
+          addRegistration(unclaimedRef.current, group, keyString, query)
+        }
 
         // Check for existing Observer, create new if none
         const currentObserver = observersRef.current.get(keyString)
-        const observer = currentObserver ?? createObserver(queryClient, query)
+        const observer =
+          currentObserver ??
+          (withOptions ? createOptionsObserver : createObserver)(
+            queryClient,
+            query,
+            keyString,
+          )
         if (!currentObserver) {
           observersRef.current.set(keyString, observer)
+        } else if (withOptions) {
+          currentObserver.setOptions({
+            ...query,
+            queryHash: keyString,
+          } as QueryObserverOptions)
         }
 
-        return { created: !currentObserver, observer }
+        return { created: !currentObserver, observer, keyString }
       })
     },
-    [queryClient],
+    [queryClient, addGroupMember],
   )
 
   /**
    * Create or get Promise that waits for all Observers in the specified query set to complete
    * Reuses existing Promise for the same query set
+   * Resolves early and marks the query set as timed out once the timeout elapses
    * @param observers - Array of Observers to monitor
-   * @param queries - Corresponding query array (for key generation)
+   * @param querySet - Query set suspended on the Promise
+   * @param label - Label of the consumer suspending on the Promise
+   * @param timing - Suspense timeout and pending display timing
    * @returns Promise that waits for all Observers to complete
    */
   const createCombinedPromise = useCallback(
-    (observers: readonly QueryObserver[], queries: readonly ScreenQuery[]) => {
-      const querySetKey = generateQuerySetKey(queries)
-
-      // Check for existing Promise for the same query set
+    (
+      observers: readonly QueryObserver[],
+      querySet: QuerySet,
+      label: string | undefined,
+      {
+        timeout,
+        minPendingMs,
+        pendingDelayMs,
+      }: {
+        timeout: number | undefined
+        minPendingMs: number
+        pendingDelayMs: number
+      },
+    ) => {
+      const querySetKey = querySet.key
+      // Reuse existing Promise for the same query set
       const existingPromise = queryPromiseRef.current.get(querySetKey)
-      // Create new Promise if none exists
-      const combinedPromise =
-        existingPromise ??
-        Promise.all(observers.map(createObserverPromise)).then(() => {
+      if (existingPromise) {
+        if (label !== undefined) {
+          existingPromise.consumers.add(label)
+        }
+        return existingPromise.promise
+      }
+
+      // Start a pending period shared by all Suspense boundaries of the provider
+      if (queryPromiseRef.current.size === 0) {
+        pendingSinceRef.current = Date.now()
+      }
+      const pendingSince = pendingSinceRef.current
+
+      // Create new Promise that can also be woken up early
+      let wake = () => {}
+      let timer: ReturnType<typeof setTimeout> | undefined
+      const promise = new Promise<void>((resolve) => {
+        wake = resolve
+        void Promise.all(observers.map(createObserverPromise)).then(() => {
+          // Keep a shown fallback visible for the minimum pending time
+          const elapsed = Date.now() - pendingSince
+          const remaining =
+            elapsed < pendingDelayMs
+              ? 0
+              : pendingDelayMs + minPendingMs - elapsed
+          if (remaining > 0) {
+            setTimeout(resolve, remaining)
+          } else {
+            resolve()
+          }
+        })
+        if (timeout !== undefined) {
+          timer = setTimeout(() => {
+            timedOutRef.current.set(querySetKey, timeout)
+            resolve()
+          }, timeout)
+        }
+      }).then(() => {
+        clearTimeout(timer)
+        if (queryPromiseRef.current.get(querySetKey)?.promise === promise) {
           queryPromiseRef.current.delete(querySetKey)
+        }
+
+        // Queries nobody retains may belong to a render that never commits,
+        // so drop them on a later commit unless a render registers them first
+        const members = groupsRef.current.get(querySet.group)
+        querySet.keyStrings.forEach((keyString) => {
+          const query = queriesRef.current.get(keyString)
+          if (query && members?.get(keyString)?.size === 0) {
+            addRegistration(
+              orphanedRef.current,
+              querySet.group,
+              keyString,
+              query,
+            )
+          }
         })
-      if (!existingPromise) {
-        queryPromiseRef.current.set(querySetKey, combinedPromise)
-      }
+      })
+      queryPromiseRef.current.set(querySetKey, {
+        promise,
+        wake,
+        querySet,
+        observers,
+        consumers: new Set(label === undefined ? [] : [label]),
+      })
 
-      return combinedPromise
+      return promise
     },
     [],
   )
 
   /**
-   * Get results for specified queries
-   * Throws Promise if loading, throws Error if error
-   * Returns data if successful
+   * Get full results for specified queries
+   * Throws Promise if loading, throws ScreenQueryError if any query failed
+   * Returns the query results if successful
    * @param results - Array of query results to fetch
    * @param options - Optional configuration
    * @param options.suspendOnCreate - If true, throws Promise when observer is first created (default: false)
-   * @returns Array of data
+   * @param options.group - Query group to synchronize with (default: 'default')
+   * @param options.suspenseTimeout - Milliseconds to suspend before throwing ScreenQueryTimeoutError
+   * @param options.minPendingMs - Minimum milliseconds the fallback stays visible once shown
+   * @param options.pendingDelayMs - Milliseconds before the fallback is shown
+   * @param options.throwOnError - Whether a failed query is thrown to the ErrorBoundary
+   * @param options.label - Label listing the consumer in ScreenQueryDevtools while it is suspended
+   * @param owner - Owner registering the queries
+   * @returns Array of query results, with the revealed data
    */
-  const getQueryResult = useCallback(
+  const getOwnedQueryResults = useCallback(
     (
       results: readonly ScreenQueryResult[],
-      options?: { suspendOnCreate?: boolean },
+      options: GetQueryResultOptions | undefined,
+      owner: QueryOwner,
     ) => {
-      const { suspendOnCreate = false } = options ?? {}
+      const {
+        suspendOnCreate = false,
+        group = DEFAULT_GROUP,
+        suspenseTimeout = defaultSuspenseTimeout,
+        minPendingMs = defaultMinPendingMs,
+        pendingDelayMs = defaultPendingDelayMs,
+        throwOnError = defaultThrowOnError,
+        label,
+      } = options ?? {}
 
       // Register queries and get Observers
-      const registerResult = registerQueriesAndObservers(results)
+      const registerResult = registerQueriesAndObservers(results, group, owner)
       const observerCreated = registerResult.some((result) => result.created)
+      const keyStrings = registerResult.map((result) => result.keyString)
+      const querySetKey = generateQuerySetKey(group, keyStrings)
 
-      // Get all Observers
-      const allObservers = [...observersRef.current.values()]
+      // Track disabled queries, which would otherwise suspend forever
+      registerResult.forEach(({ observer }, index) => {
+        const result = results[index]
+        if (isDisabledResult(result)) {
+          disabledRef.current.add(observer)
+          return
+        }
+        disabledRef.current.delete(observer)
+        // Enable Observers created while the query was disabled, so they fetch once waited on
+        if (result.isPending && !isEnabledObserver(observer)) {
+          observer.setOptions({ ...observer.options, enabled: true })
+        }
+      })
+
+      // Get all Observers in the group, except those of disabled queries
+      const groupObservers = getGroupValues(observersRef.current, group).filter(
+        (observer) => !disabledRef.current.has(observer),
+      )
+      const isLoading = checkLoadingState(groupObservers)
+
+      // Throw the timeout once, so retrying suspends again with a new timeout
+      const timedOut = timedOutRef.current.get(querySetKey)
+      timedOutRef.current.delete(querySetKey)
+      if (timedOut !== undefined && isLoading) {
+        throw new ScreenQueryTimeoutError(
+          getPendingQueryKeys(groupObservers),
+          timedOut,
+        )
+      }
 
       // Check loading state and throw Promise for React Suspense
-      if (
-        (suspendOnCreate && observerCreated) ||
-        checkLoadingState(allObservers)
-      ) {
+      if ((suspendOnCreate && observerCreated) || isLoading) {
         // React Suspense pattern: Throwing a Promise is the correct way to trigger Suspense.
         // When React catches this Promise, it will show the fallback UI and re-render when resolved.
         // This ensures all queries complete before rendering, preventing partial UI updates.
-        throw createCombinedPromise(allObservers, results)
+        throw createCombinedPromise(
+          groupObservers,
+          { key: querySetKey, group, keyStrings },
+          label,
+          { timeout: suspenseTimeout, minPendingMs, pendingDelayMs },
+        )
+      }
+
+      // Defer the reveal until the parent has no suspended queries
+      const parentPromise = waitForParent
+        ? parent?.getPendingPromise()
+        : undefined
+      if (parentPromise) {
+        throw parentPromise
       }
 
       // Get current Observers
       const currentObservers = registerResult.map((result) => result.observer)
       // Check for errors and throw for React ErrorBoundary
-      const error = getQueryError(currentObservers, results)
-      if (error) {
+      const failures = getQueryFailures(currentObservers, results, throwOnError)
+      if (failures.length > 0) {
         // React ErrorBoundary pattern: Throwing an Error triggers the nearest ErrorBoundary.
         // This provides consistent error handling across all queries in the component.
-        throw error
+        throw new ScreenQueryError(failures)
+      }
+
+      // In atomic mode, every query is held while any registered query is fetching
+      const atomicHeld =
+        atomic && checkFetchingState(observersRef.current.values())
+      if (atomicHeld) {
+        atomicHeldRef.current = true
+      }
+
+      // Return results, keeping the data previously revealed to the owner for
+      // held queries, as consumers of one query may select different data
+      const revealed = revealedRef.current.get(owner) ?? new Map()
+      revealedRef.current.set(owner, revealed)
+      return results.map((q, index) => {
+        const keyString = keyStrings[index]
+        const held =
+          atomicHeld ||
+          [...holdsRef.current].some((hold) => hold.has(keyString))
+        if (!held || !revealed.has(keyString)) {
+          revealed.set(keyString, q.data)
+        }
+        return { ...q, data: revealed.get(keyString) }
+      })
+    },
+    [
+      registerQueriesAndObservers,
+      getGroupValues,
+      createCombinedPromise,
+      defaultSuspenseTimeout,
+      defaultMinPendingMs,
+      defaultPendingDelayMs,
+      defaultThrowOnError,
+      atomic,
+      waitForParent,
+      parent,
+    ],
+  )
+
+  /**
+   * Get data for specified query options
+   * Observers are created with the full options, and updated with them once created
+   * @param queries - Array of query options to fetch
+   * @param options - Optional configuration
+   * @param owner - Owner registering the queries
+   * @returns Array of data, with data and error for optional queries
+   * @see getOwnedQueryResults
+   */
+  const readOwnedQueries = useCallback(
+    (
+      queries: readonly ScreenQueryOptions[],
+      options: GetQueryResultOptions | undefined,
+      owner: QueryOwner,
+    ) => {
+      const results = registerQueriesAndObservers(
+        queries,
+        options?.group ?? DEFAULT_GROUP,
+        owner,
+        true,
+      ).map(({ observer, keyString }, index) => {
+        // Subscribed from the first render, so the query stays cached while suspended
+        subscribeReadObserver(keyString, observer)
+        const result = observer.getCurrentResult()
+        return {
+          ...result,
+          // Fetched once subscribed, so only taken as disabled by its options
+          ...(result.isPending &&
+            isEnabledObserver(observer) && {
+              fetchStatus: 'fetching' as const,
+            }),
+          ...queries[index],
+        }
+      })
+      return getOwnedQueryResults(results, options, owner).map(getQueryData)
+    },
+    [registerQueriesAndObservers, getOwnedQueryResults, subscribeReadObserver],
+  )
+
+  /**
+   * Get data for specified queries
+   * Optional queries return their data and error instead of throwing the error
+   * Queries returned by the stage are resolved in the same group before returning,
+   * so the whole dependency chain is revealed at once
+   * @param results - Array of query results to fetch
+   * @param options - Optional configuration
+   * @param owner - Owner registering the queries
+   * @param stage - Returns the queries depending on the data of the results
+   * @returns Array of data, followed by the data of the stage queries
+   * @see getOwnedQueryResults
+   */
+  const getOwnedQueryResult = useCallback(
+    (
+      results: readonly ScreenQueryResult[],
+      options: GetQueryResultOptions | undefined,
+      owner: QueryOwner,
+      stage?: QueryStage,
+    ): unknown[] => {
+      const data = getOwnedQueryResults(results, options, owner).map(
+        getQueryData,
+      )
+      if (!stage) {
+        return data
       }
 
-      // Return data
-      return results.map((q) => q.data)
+      // Resolve the stage queries with the given options in the same group
+      return [...data, ...readOwnedQueries(stage(data), options, owner)]
     },
-    [registerQueriesAndObservers, createCombinedPromise],
+    [getOwnedQueryResults, readOwnedQueries],
+  )
+
+  /**
+   * Get results for specified queries, kept registered until the provider unmounts
+   * @see getOwnedQueryResult
+   */
+  const getQueryResult = useCallback(
+    (
+      results: readonly ScreenQueryResult[],
+      stage?: QueryStage | GetQueryResultOptions,
+      options?: GetQueryResultOptions,
+    ) =>
+      typeof stage === 'function'
+        ? getOwnedQueryResult(results, options, PERSISTENT_OWNER, stage)
+        : getOwnedQueryResult(results, stage, PERSISTENT_OWNER),
+    [getOwnedQueryResult],
   ) as GetQueryResult
 
   /**
-   * Refetch all registered queries
-   * Used for pull-to-refresh etc.
+   * Get data for specified query options, kept registered until the provider unmounts
+   * @see readOwnedQueries
+   */
+  const readQueries = useCallback(
+    (queries: readonly ScreenQueryOptions[], options?: GetQueryResultOptions) =>
+      readOwnedQueries(queries, options, PERSISTENT_OWNER),
+    [readOwnedQueries],
+  ) as ReadQueries
+
+  /**
+   * Get full results for specified queries, kept registered until the provider unmounts
+   * @see getOwnedQueryResults
+   */
+  const getQueryResults = useCallback(
+    (results: readonly ScreenQueryResult[], options?: GetQueryResultOptions) =>
+      getOwnedQueryResults(results, options, PERSISTENT_OWNER),
+    [getOwnedQueryResults],
+  ) as GetQueryResults
+
+  /**
+   * Retain the queries used in the owner's latest committed render
+   * Queries the owner no longer uses are released
+   * @param owner - Owner whose render was committed
+   */
+  const commit = useCallback(
+    (owner: QueryOwner) => {
+      // Also drop queries of renders that suspended and were never committed
+      const released = takeOrphaned()
+      ;[owner.committed, owner.uncommitted].forEach((registrations) => {
+        registrations.forEach((queries, group) => {
+          queries.forEach((query, keyString) => {
+            if (!owner.rendered.get(group)?.has(keyString)) {
+              addRegistration(released, group, keyString, query)
+            }
+          })
+        })
+      })
+
+      owner.rendered.forEach((queries, group) => {
+        queries.forEach((query, keyString) => {
+          addGroupMember(group, keyString, query, owner)
+        })
+      })
+      owner.committed = new Map(owner.rendered)
+      owner.uncommitted = new Map()
+      releaseQueries(owner, released)
+    },
+    [addGroupMember, releaseQueries, takeOrphaned],
+  )
+
+  /**
+   * Release every query retained by the owner
+   * @param owner - Owner that unmounted
+   */
+  const release = useCallback(
+    (owner: QueryOwner) => {
+      const released = takeOrphaned()
+      ;[owner.committed, owner.uncommitted].forEach((registrations) => {
+        registrations.forEach((queries, group) => {
+          queries.forEach((query, keyString) => {
+            addRegistration(released, group, keyString, query)
+          })
+        })
+      })
+      owner.committed = new Map()
+      owner.uncommitted = new Map()
+      releaseQueries(owner, released)
+    },
+    [releaseQueries, takeOrphaned],
+  )
+
+  /**
+   * Hold back data updates of queries until the returned function is called
+   * getQueryResult keeps returning the data revealed before the hold, so
+   * only this provider's consumers are affected. Releasing reveals all held
+   * queries together with a single re-render of the consumers.
+   * @param keyStrings - Key strings of the queries to hold
+   * @returns Function that releases the hold
+   */
+  const holdQueries = useCallback((keyStrings: readonly string[]) => {
+    const hold = new Set(keyStrings)
+    holdsRef.current.add(hold)
+
+    return () => {
+      holdsRef.current.delete(hold)
+      reveal()
+    }
+  }, [])
+
+  /**
+   * Refetch registered queries and those of descendant providers
+   * Their data is held back until the returned release function is called, so
+   * an ancestor can reveal its whole subtree in a single update.
+   * @param options - Group name, or filters for the queries to refetch
+   * @returns Function revealing the refetched data, and the queries that failed
    */
-  const refetchQueries = useCallback(async () => {
-    const queries = [...queriesRef.current.values()]
-
-    // Set custom notify function to temporarily ignore notifications
-    notifyManager.setNotifyFunction(() => {})
-
-    // Wrap in try-finally as a precaution though refetchQueries rarely errors
-    try {
-      // Refetch all queries in parallel
-      await Promise.all(
-        queries.map((query) =>
-          queryClient.refetchQueries({
-            queryKey: query.queryKey,
-            exact: true,
-          }),
+  const refetchHeldQueries = useCallback(
+    async (options?: string | RefetchQueriesOptions): Promise<HeldRefetch> => {
+      const {
+        group,
+        queryKeys,
+        predicate,
+        type = 'all',
+        cancelRefetch,
+      } = typeof options === 'string' ? { group: options } : { ...options }
+      const queryCache = queryClient.getQueryCache()
+
+      const queries = getGroupValues(queriesRef.current, group).filter(
+        (query) => {
+          if (
+            queryKeys &&
+            !queryKeys.some((queryKey) =>
+              partialMatchKey(query.queryKey, queryKey),
+            )
+          ) {
+            return false
+          }
+
+          // Queries no longer in the cache have nothing to refetch
+          const cachedQuery = queryCache.get(
+            getQueryKeyString(queryClient, query),
+          )
+          return (
+            cachedQuery !== undefined &&
+            matchQuery(
+              { predicate, stale: type === 'stale' ? true : undefined },
+              cachedQuery,
+            )
+          )
+        },
+      )
+
+      // Hold back updates so the queries are revealed together
+      const releaseHold = holdQueries(
+        queries.map((query) => getQueryKeyString(queryClient, query)),
+      )
+
+      // Refetch all queries in parallel, with those of the descendants
+      const [refetched, ...descendants] = await Promise.allSettled([
+        notifyManager.batch(() =>
+          Promise.all(
+            queries.map((query) =>
+              queryClient.refetchQueries(
+                {
+                  queryKey: query.queryKey,
+                  exact: true,
+                },
+                { cancelRefetch },
+              ),
+            ),
+          ),
+        ),
+        ...[...childrenRef.current].map((child) =>
+          child.refetchHeldQueries(options),
         ),
+      ])
+      const release = () => {
+        releaseHold()
+        descendants.forEach((descendant) => {
+          if (descendant.status === 'fulfilled') {
+            descendant.value.release()
+          }
+        })
+      }
+
+      // Reveal what was refetched as a precaution though refetchQueries rarely errors
+      const rejected = [refetched, ...descendants].find(
+        (result) => result.status === 'rejected',
       )
-    } finally {
-      // Restore default notify function, final notification executes at this point
-      notifyManager.setNotifyFunction((fn) => fn())
+      if (rejected) {
+        release()
+        throw rejected.reason
+      }
+
+      const failures = queries.flatMap((query) => {
+        const { state } =
+          queryCache.get(getQueryKeyString(queryClient, query)) ?? {}
+        return state?.status === 'error' && state.error
+          ? [
+              {
+                queryKey: query.queryKey,
+                error: state.error,
+                failureCount: state.fetchFailureCount,
+              },
+            ]
+          : []
+      })
+      return {
+        release,
+        failures: [
+          ...failures,
+          ...descendants.flatMap((descendant) =>
+            descendant.status === 'fulfilled' ? descendant.value.failures : [],
+          ),
+        ],
+      }
+    },
+    [queryClient, getGroupValues, holdQueries],
+  )
+
+  /**
+   * Refetch registered queries, and those of descendant providers
+   * Used for pull-to-refresh etc.
+   * @param options - Group name, or filters for the queries to refetch
+   */
+  const refetchQueries = useCallback(
+    async (options?: string | RefetchQueriesOptions) => {
+      const { release, failures } = await refetchHeldQueries(options)
+      // Reveal the refetched data in a single update
+      release()
+
+      if (
+        typeof options === 'object' &&
+        options.throwOnError &&
+        failures.length > 0
+      ) {
+        throw new ScreenQueryError(failures)
+      }
+    },
+    [refetchHeldQueries],
+  )
+
+  /**
+   * Refetch the stale queries together when the app gains focus or goes back online
+   * Fetches already started by the queries' own refetchOnWindowFocus / refetchOnReconnect
+   * are joined instead of cancelled, and their data is held back until all are done.
+   */
+  useEffect(() => {
+    const sources = [
+      refetchOnFocus && focusSource,
+      refetchOnReconnect && reconnectSource,
+    ].filter((source) => source !== false)
+    const unsubscribes = sources.map((source) =>
+      source.subscribe((active) => {
+        if (active) {
+          void refetchQueries({ type: 'stale', cancelRefetch: false })
+        }
+      }),
+    )
+    return () => {
+      unsubscribes.forEach((unsubscribe) => {
+        unsubscribe()
+      })
+    }
+  }, [
+    refetchOnFocus,
+    refetchOnReconnect,
+    focusSource,
+    reconnectSource,
+    refetchQueries,
+  ])
+
+  /**
+   * Poll all registered queries with a single timer, so they are revealed together
+   * instead of drifting apart with per-query refetchInterval timers
+   */
+  useEffect(() => {
+    if (!refetchInterval) {
+      return
+    }
+
+    const timer = setInterval(() => {
+      // Skip ticks in the background or while a refetch is still holding back data
+      if (!focusManager.isFocused() || holdsRef.current.size > 0) {
+        return
+      }
+      void refetchQueries()
+    }, refetchInterval)
+    return () => clearInterval(timer)
+  }, [refetchInterval, refetchQueries])
+
+  /**
+   * In atomic mode, reveal the held data once the last fetching query has settled
+   * Consumers whose queries settled earlier are re-rendered with the others.
+   */
+  useEffect(() => {
+    if (!atomic) {
+      return
     }
-  }, [queryClient])
+
+    return queryClient.getQueryCache().subscribe((event) => {
+      if (
+        event.type === 'updated' &&
+        atomicHeldRef.current &&
+        !checkFetchingState(observersRef.current.values())
+      ) {
+        atomicHeldRef.current = false
+        reveal()
+      }
+    })
+  }, [atomic, queryClient])
 
   /**
-   * Clear query cache and reset Observers
+   * Clear query cache and reset Observers of the cleared queries, and those of descendant providers
    * @param status - 'error': Clear only error state queries / 'all': Clear all queries
+   * @param options - Optional configuration
+   * @param options.group - Only clear queries in this group (default: all groups)
+   * @param options.queryKeys - Only clear queries whose key starts with one of these keys
+   * @param options.predicate - Only clear queries for which this returns true
+   * @param options.mode - How the queries are cleared (default: 'reset')
    */
   const clearCache = useCallback(
-    async (status: ClearCacheStatus) => {
-      // Get queries to clear based on status
-      const queries = [...observersRef.current.values()]
+    async (status: ClearCacheStatus, options?: ClearCacheOptions) => {
+      const { group, queryKeys, predicate, mode = 'reset' } = { ...options }
+      const observers = getGroupValues(observersRef.current, group)
+
+      // Get queries to clear based on status and filters
+      const queries = observers
         .map((observer) => observer.getCurrentQuery())
-        .filter((query) => status === 'all' || query.state.status === status)
+        .filter(
+          (query) =>
+            (status === 'all' || query.state.status === status) &&
+            (!queryKeys ||
+              queryKeys.some((queryKey) =>
+                partialMatchKey(query.queryKey, queryKey),
+              )) &&
+            (!predicate || predicate(query)),
+        )
 
-      // Destroy and clear all Observers
-      observersRef.current.forEach((observer) => {
-        observer.destroy()
-      })
-      observersRef.current.clear()
-      // Don't clear queriesRef (not for disposal)
-
-      // Reset query cache (parallel execution)
-      await notifyManager.batch(() =>
-        Promise.all(
-          queries.map((query) =>
-            queryClient.resetQueries({
-              queryKey: query.queryKey,
-              exact: true,
+      // Invalidated queries keep their data, so their Observers stay in place
+      if (mode !== 'invalidate') {
+        // Destroy and clear the Observers of the cleared queries
+        observersRef.current.forEach((observer, keyString) => {
+          if (queries.includes(observer.getCurrentQuery())) {
+            observer.destroy()
+            observersRef.current.delete(keyString)
+          }
+        })
+        // Don't clear queriesRef (not for disposal)
+        wakeSuspended()
+      }
+
+      // Clear query cache (parallel execution), with the descendants
+      await Promise.all([
+        notifyManager.batch(() =>
+          Promise.all(
+            queries.map((query) => {
+              const filters = { queryKey: query.queryKey, exact: true }
+              switch (mode) {
+                case 'remove':
+                  return queryClient.removeQueries(filters)
+                case 'invalidate':
+                  return queryClient.invalidateQueries(filters)
+                default:
+                  return queryClient.resetQueries(filters)
+              }
             }),
           ),
         ),
+        ...[...childrenRef.current].map((child) =>
+          child.clearCache(status, options),
+        ),
+      ])
+
+      // Reset and removed queries notify no Observer of readQueries anymore,
+      // so re-render consumers to read them again
+      if (mode !== 'invalidate') {
+        reveal()
+      }
+    },
+    [queryClient, getGroupValues, wakeSuspended],
+  )
+
+  /**
+   * Register the queries of the screen on behalf of the provider
+   * Observed with the declared options, so they fetch with them and pick up
+   * data prefetched with prefetchScreen
+   * @param queries - Query options of the screen
+   */
+  const registerScreenQueries = useCallback(
+    (queries: readonly ScreenQueryOptions[]) => {
+      const owner = screenOwnerRef.current
+      owner.rendered = new Map()
+      registerQueriesAndObservers(queries, DEFAULT_GROUP, owner, true).forEach(
+        ({ observer }) => {
+          // Not backed by a query result, so only taken as disabled by its options
+          if (!isEnabledObserver(observer)) {
+            disabledRef.current.add(observer)
+          }
+        },
       )
     },
-    [queryClient],
+    [registerQueriesAndObservers],
   )
 
+  // Register the screen's queries before the children render
+  registerScreenQueries(screen?.queries(params as P) ?? [])
+
+  // Retain the screen's queries of every committed render
+  useEffect(() => {
+    commit(screenOwnerRef.current)
+  })
+
+  // Release the screen's queries on unmount
+  useEffect(() => () => release(screenOwnerRef.current), [release])
+
   // Clean up all Observers when Provider unmounts
   useEffect(() => {
     const currentObservers = observersRef.current
@@ -378,15 +1998,221 @@ export function ScreenQueryProvider({
     }
   }, [])
 
+  /**
+   * Get milliseconds left until a fallback should be shown
+   * Measured from the start of the current pending period, so fallbacks of all
+   * Suspense boundaries appear together
+   * @param pendingDelayMs - Delay before showing the fallback (default: the provider's pendingDelayMs)
+   * @returns Remaining milliseconds, 0 if the fallback should be shown now
+   */
+  const getRemainingPendingDelay = useCallback(
+    (pendingDelayMs = defaultPendingDelayMs) =>
+      Math.max(0, pendingSinceRef.current + pendingDelayMs - Date.now()),
+    [defaultPendingDelayMs],
+  )
+
+  /**
+   * Get a Promise waiting for the query sets currently suspended
+   * Used on the server to wait for the queries the provider suspended on
+   * @param group - Only wait for query sets of this group (default: all groups)
+   * @param keyStrings - Only wait for query sets with one of these queries (default: all query sets)
+   * @returns Promise resolved once they settle, undefined if none is suspended
+   */
+  const getPendingPromise = useCallback(
+    (group?: string, keyStrings?: ReadonlySet<string>) => {
+      const promises = [...queryPromiseRef.current.values()]
+        .filter(
+          ({ querySet }) =>
+            (group === undefined || querySet.group === group) &&
+            (!keyStrings ||
+              querySet.keyStrings.some((keyString) =>
+                keyStrings.has(keyString),
+              )),
+        )
+        .map(({ promise }) => promise)
+      return promises.length > 0
+        ? Promise.all(promises).then(() => {})
+        : undefined
+    },
+    [],
+  )
+
+  /**
+   * Claim the queries registered on the server since the previous claim
+   * The server renders a Suspense boundary's content right before the
+   * ScreenQueryHydration placed after it, so the claimed queries are those of its
+   * boundary. Claims are kept by id, so a retried render keeps its queries and adds
+   * those its boundary registered when retried.
+   * @param claimId - Id of the claiming component, stable across retries
+   * @param group - Only claim queries of this group (default: all groups)
+   * @returns Key strings of every query claimed with the id
+   */
+  const claimQueries = useCallback((claimId: string, group?: string) => {
+    const claimed = claimsRef.current.get(claimId) ?? new Set<string>()
+    claimsRef.current.set(claimId, claimed)
+    unclaimedRef.current.forEach((queries, queryGroup) => {
+      if (group !== undefined && queryGroup !== group) {
+        return
+      }
+      queries.forEach((_, keyString) => {
+        claimed.add(keyString)
+      })
+      unclaimedRef.current.delete(queryGroup)
+    })
+    return claimed
+  }, [])
+
+  /**
+   * Dehydrate the settled queries registered in the provider
+   * Each query is only dehydrated once, so every streamed chunk carries new queries only
+   * @param keyStrings - Only dehydrate these queries (default: all registered queries)
+   * @returns Dehydrated state, undefined if no query is left to dehydrate
+   */
+  const dehydrateQueries = useCallback(
+    (keyStrings?: ReadonlySet<string>) => {
+      const state = dehydrate(queryClient, {
+        shouldDehydrateMutation: () => false,
+        shouldDehydrateQuery: (query) =>
+          queriesRef.current.has(query.queryHash) &&
+          (!keyStrings || keyStrings.has(query.queryHash)) &&
+          !dehydratedRef.current.has(query.queryHash) &&
+          defaultShouldDehydrateQuery(query),
+      })
+      state.queries.forEach((query) => {
+        dehydratedRef.current.add(query.queryHash)
+      })
+      return state.queries.length > 0 ? state : undefined
+    },
+    [queryClient],
+  )
+
+  /**
+   * Register a descendant provider, so refetchQueries and clearCache cascade to it
+   * @param child - Registry of the descendant provider
+   * @returns Function that unregisters it
+   */
+  const addChild = useCallback((child: ScreenQueryRegistry) => {
+    childrenRef.current.add(child)
+    return () => {
+      childrenRef.current.delete(child)
+    }
+  }, [])
+
+  /**
+   * Snapshot the registered queries and pending query sets for ScreenQueryDevtools
+   * @returns Snapshot of the provider, with those of its descendants
+   */
+  const getSnapshot = useCallback((): ScreenQueryProviderSnapshot => {
+    const groups = [...groupsRef.current]
+    const queries = [...queriesRef.current].map(([keyString, query]) => {
+      const state = queryClient.getQueryCache().get(keyString)?.state
+      const owners = groups.flatMap(([, members]) => [
+        ...(members.get(keyString) ?? []),
+      ])
+      const predicate = (cached: Query) => cached.queryHash === keyString
+      return {
+        keyString,
+        queryKey: query.queryKey,
+        groups: groups
+          .filter(([, members]) => members.has(keyString))
+          .map(([group]) => group),
+        owners: new Set(owners).size,
+        status: state?.status ?? 'pending',
+        fetchStatus: state?.fetchStatus ?? 'idle',
+        held:
+          atomicHeldRef.current ||
+          [...holdsRef.current].some((hold) => hold.has(keyString)),
+        refetch: () => refetchQueries({ predicate }),
+        clear: () => clearCache('all', { predicate }),
+      }
+    })
+    const pending = [...queryPromiseRef.current.values()].map(
+      ({ querySet, observers, consumers }) => ({
+        querySetKey: querySet.key,
+        group: querySet.group,
+        keyStrings: [...querySet.keyStrings],
+        consumers: [...consumers],
+        waitingFor: observers.map(
+          (observer) => observer.getCurrentQuery().queryHash,
+        ),
+      }),
+    )
+    return {
+      id,
+      name,
+      queries,
+      pending,
+      children: [...childrenRef.current].map((child) => child.getSnapshot()),
+    }
+  }, [queryClient, id, name, refetchQueries, clearCache])
+
+  const registry = useMemo<ScreenQueryRegistry>(
+    () => ({
+      getQueryResult: getOwnedQueryResult,
+      getQueryResults: getOwnedQueryResults,
+      readQueries: readOwnedQueries,
+      commit,
+      release,
+      getRemainingPendingDelay,
+      getPendingPromise,
+      claimQueries,
+      dehydrateQueries,
+      id,
+      name,
+      parent,
+      addChild,
+      refetchHeldQueries,
+      refetchQueries,
+      clearCache,
+      getSnapshot,
+    }),
+    [
+      getOwnedQueryResult,
+      getOwnedQueryResults,
+      readOwnedQueries,
+      commit,
+      release,
+      getRemainingPendingDelay,
+      getPendingPromise,
+      claimQueries,
+      dehydrateQueries,
+      id,
+      name,
+      parent,
+      addChild,
+      refetchHeldQueries,
+      refetchQueries,
+      clearCache,
+      getSnapshot,
+    ],
+  )
+
+  // Register with the parent provider, so its operations cascade to this one,
+  // or as a root provider of the QueryClient for ScreenQueryDevtools
+  useEffect(() => {
+    if (parent) {
+      return parent.addChild(registry)
+    }
+    const registries = rootRegistries.get(queryClient) ?? new Set()
+    rootRegistries.set(queryClient, registries.add(registry))
+    return () => {
+      registries.delete(registry)
+    }
+  }, [queryClient, parent, registry])
+
   return (
-    <ScreenQueryContext.Provider
-      value={{
-        getQueryResult,
-        refetchQueries,
-        clearCache,
-      }}
-    >
-      {children}
-    </ScreenQueryContext.Provider>
+    <ScreenQueryRegistryContext.Provider value={registry}>
+      <ScreenQueryContext.Provider
+        value={{
+          getQueryResult,
+          getQueryResults,
+          readQueries,
+          refetchQueries,
+          clearCache,
+        }}
+      >
+        {children}
+      </ScreenQueryContext.Provider>
+    </ScreenQueryRegistryContext.Provider>
   )
 }
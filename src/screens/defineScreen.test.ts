@@ -0,0 +1,67 @@
+import {
+  type InfiniteData,
+  infiniteQueryOptions,
+  skipToken,
+} from '@tanstack/react-query'
+import { createQueryClient } from '~/test-utils/screen-query'
+import { defineScreen, prefetchScreen } from './defineScreen'
+
+describe('prefetchScreen', () => {
+  const queryClient = createQueryClient()
+
+  afterEach(() => {
+    queryClient.clear()
+  })
+
+  it('should prefetch the queries of the screen for the params', async () => {
+    // Given: A screen loading a user by id
+    const fetchUser = vi.fn(async (userId: number) => `user ${userId}`)
+    const userScreen = defineScreen(({ userId }: { userId: number }) => [
+      { queryKey: ['user', userId], queryFn: () => fetchUser(userId) },
+    ])
+
+    // When: Prefetch the screen
+    await prefetchScreen(queryClient, userScreen, { userId: 7 })
+
+    // Then: The query is fetched for the params
+    expect(fetchUser).toHaveBeenCalledWith(7)
+    expect(queryClient.getQueryState(['user', 7])?.status).toBe('success')
+  })
+
+  it('should skip disabled queries', async () => {
+    // Given: A screen with a disabled query and a skipped query
+    const queryFn = vi.fn(async () => 'data')
+    const disabledScreen = defineScreen(() => [
+      { queryKey: ['disabled'], queryFn, enabled: false },
+      { queryKey: ['skipped'], queryFn: skipToken },
+    ])
+
+    // When: Prefetch the screen
+    await prefetchScreen(queryClient, disabledScreen, undefined)
+
+    // Then: Nothing is fetched
+    expect(queryFn).not.toHaveBeenCalled()
+    expect(queryClient.getQueryState(['skipped'])).toBeUndefined()
+  })
+
+  it('should prefetch infinite queries as infinite queries', async () => {
+    // Given: A screen loading the first page of a feed
+    const feedScreen = defineScreen(() => [
+      infiniteQueryOptions({
+        queryKey: ['feed'],
+        queryFn: async ({ pageParam }) => `page ${pageParam}`,
+        initialPageParam: 1,
+        getNextPageParam: (_lastPage, pages) => pages.length + 1,
+      }),
+    ])
+
+    // When: Prefetch the screen
+    await prefetchScreen(queryClient, feedScreen, undefined)
+
+    // Then: The cache holds the pages of the infinite query
+    expect(queryClient.getQueryData<InfiniteData<string>>(['feed'])).toEqual({
+      pages: ['page 1'],
+      pageParams: [1],
+    })
+  })
+})
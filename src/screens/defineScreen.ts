@@ -0,0 +1,84 @@
+import {
+  type FetchInfiniteQueryOptions,
+  type FetchQueryOptions,
+  type QueryClient,
+  skipToken,
+} from '@tanstack/react-query'
+import type { ScreenQueryOptions } from '~/providers/ScreenQueryProvider'
+
+/**
+ * Queries of a screen, declared once for both prefetching and ScreenQueryProvider.
+ * @template P - The type of the params the queries depend on
+ * @template Q - The type of the query options of the screen
+ */
+export type ScreenDefinition<
+  P = void,
+  Q extends readonly ScreenQueryOptions[] = readonly ScreenQueryOptions[],
+> = {
+  /**
+   * Get the query options of the screen for the params
+   */
+  queries(params: P): Q
+}
+
+/**
+ * Declare the queries of a screen.
+ *
+ * @example
+ * ```tsx
+ * const userScreen = defineScreen(({ userId }: { userId: number }) => [
+ *   userQueryOptions(userId),
+ *   postsQueryOptions(userId),
+ * ])
+ *
+ * // Warm the screen's queries on link hover or in a route loader
+ * await prefetchScreen(queryClient, userScreen, { userId })
+ *
+ * // Observe them from the first render of the screen
+ * <ScreenQueryProvider screen={userScreen} params={{ userId }}>
+ *   <UserScreen userId={userId} />
+ * </ScreenQueryProvider>
+ * ```
+ *
+ * @param queries - Returns the query options of the screen for the params
+ * @returns Screen definition
+ */
+export function defineScreen<
+  P = void,
+  const Q extends readonly ScreenQueryOptions[] = readonly ScreenQueryOptions[],
+>(queries: (params: P) => Q): ScreenDefinition<P, Q> {
+  return { queries }
+}
+
+/**
+ * Prefetch the queries of a screen into the QueryClient.
+ * Disabled queries (`enabled: false` or `skipToken`) are skipped, and options
+ * created with infiniteQueryOptions() are prefetched as infinite queries.
+ * Like `queryClient.prefetchQuery`, failures are not thrown.
+ * @param queryClient - QueryClient to prefetch into
+ * @param screen - Screen whose queries are prefetched
+ * @param params - Params of the screen
+ * @returns Promise that resolves when every query is prefetched
+ */
+export async function prefetchScreen<P>(
+  queryClient: QueryClient,
+  screen: ScreenDefinition<P>,
+  params: P,
+): Promise<void> {
+  await Promise.all(
+    screen
+      .queries(params)
+      .filter(
+        (query) =>
+          !('enabled' in query && query.enabled === false) &&
+          query.queryFn !== skipToken,
+      )
+      .map((query) =>
+        'initialPageParam' in query
+          ? queryClient.prefetchInfiniteQuery(
+              query as FetchInfiniteQueryOptions,
+            )
+          : queryClient.prefetchQuery(query as FetchQueryOptions),
+      ),
+  )
+}
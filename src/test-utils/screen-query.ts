@@ -1,8 +1,11 @@
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { type RenderResult, render } from '@testing-library/react'
 import React from 'react'
+import { ScreenQueryError } from '~/errors/ScreenQueryError'
 import {
   ScreenQueryContext,
   ScreenQueryProvider,
+  type ScreenQueryProviderProps,
 } from '~/providers/ScreenQueryProvider'
 
 /**
@@ -22,12 +25,15 @@ export function createQueryClient() {
 /**
  * Create wrapper component for testing with ScreenQueryProvider
  */
-export function createWrapper(queryClient: QueryClient) {
+export function createWrapper(
+  queryClient: QueryClient,
+  providerProps?: Omit<ScreenQueryProviderProps, 'children'>,
+) {
   return ({ children }: { children: React.ReactNode }) =>
     React.createElement(
       QueryClientProvider,
       { client: queryClient },
-      React.createElement(ScreenQueryProvider, null, children),
+      React.createElement(ScreenQueryProvider, { ...providerProps, children }),
     )
 }
 
@@ -107,6 +113,69 @@ export function createQueryOptions<T>(
   }
 }
 
+/**
+ * Fake server whose queries return its current version
+ */
+export type VersionServer = {
+  /**
+   * Version returned in the data of the queries, bumped to simulate server updates
+   */
+  version: number
+  /**
+   * Keys of the fetched queries, in fetch order
+   */
+  fetchedKeys: string[]
+  /**
+   * Keys of the queries failing once fetched
+   */
+  failingKeys: string[]
+  /**
+   * Number of fetches in flight, and the most reached at once
+   */
+  inFlight: number
+  maxInFlight: number
+  /**
+   * Options of a query returning the server version after a delay
+   */
+  versionQuery(
+    key: string,
+    ms: number,
+  ): {
+    queryKey: string[]
+    staleTime: number
+    queryFn: () => Promise<string>
+  }
+}
+
+/**
+ * Create a fake server at version 1
+ */
+export function createVersionServer(): VersionServer {
+  const server: VersionServer = {
+    version: 1,
+    fetchedKeys: [],
+    failingKeys: [],
+    inFlight: 0,
+    maxInFlight: 0,
+    versionQuery: (key, ms) => ({
+      queryKey: [key],
+      staleTime: Infinity,
+      queryFn: async () => {
+        server.fetchedKeys.push(key)
+        server.inFlight++
+        server.maxInFlight = Math.max(server.maxInFlight, server.inFlight)
+        await delay(ms)
+        server.inFlight--
+        if (server.failingKeys.includes(key)) {
+          throw new Error(`${key} failed`)
+        }
+        return `${key} v${server.version}`
+      },
+    }),
+  }
+  return server
+}
+
 /**
  * Helper to get ScreenQueryContext
  * Throws error if context doesn't exist
@@ -133,3 +202,61 @@ export function suppressConsoleError() {
     // Suppress all console.error outputs including React 18 Suspense warnings
   })
 }
+
+/**
+ * Set up the tests of a describe block rendering screens inside Suspense
+ * Before each test, creates a QueryClient keeping the data cached while suspended
+ * and suppresses console.error; after each test, restores the mocks and clears it
+ * @returns State of the current test, and renderScreen recording the
+ * ScreenQueryError thrown by the screen into queryError
+ */
+export function setupScreenQueryTest(): {
+  queryClient: QueryClient
+  queryError: ScreenQueryError | undefined
+  renderScreen: (Screen: () => React.ReactNode) => RenderResult
+} {
+  const state: ReturnType<typeof setupScreenQueryTest> = {
+    queryClient: createQueryClient(),
+    queryError: undefined,
+    /**
+     * Render the screen inside Suspense, rendering "failed" when it throws
+     * ScreenQueryError
+     */
+    renderScreen: (Screen: () => React.ReactNode) => {
+      const SafeScreen = () => {
+        try {
+          return Screen()
+        } catch (error) {
+          if (error instanceof ScreenQueryError) {
+            state.queryError = error
+            return React.createElement('div', null, 'failed')
+          }
+          throw error
+        }
+      }
+      return render(
+        React.createElement(
+          React.Suspense,
+          { fallback: React.createElement('div', null, 'loading') },
+          React.createElement(SafeScreen),
+        ),
+        { wrapper: createWrapper(state.queryClient) },
+      )
+    },
+  }
+
+  beforeEach(() => {
+    // Suppress console.error including React 18 Suspense warnings
+    suppressConsoleError()
+    state.queryClient = createQueryClient()
+    state.queryClient.setDefaultOptions({ queries: { retry: false } })
+    state.queryError = undefined
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    state.queryClient.clear()
+  })
+
+  return state
+}
@@ -11,7 +11,12 @@ export default defineConfig({
       provider: 'v8',
       reporter: ['text', 'lcov'],
       include: ['src/**/*.{ts,tsx}'],
-      exclude: ['src/**/*.test.{ts,tsx}', 'src/index.ts', 'src/test-utils/**'],
+      exclude: [
+        'src/**/*.test.{ts,tsx}',
+        'src/index.ts',
+        'src/devtools.ts',
+        'src/test-utils/**',
+      ],
       thresholds: {
         branches: 95,
         functions: 95,